@@ -1,2 +1,9 @@
-export type { LogLevel, LogSettings } from "./types";
-export { Log } from "./log";
\ No newline at end of file
+export type { LogAttachOptions, LogBufferSettings, LogElevateOptions, LogErrorInfo, LogFields, LogFieldValue, LogFileOptions, LogLevel, LogLevelListener, LogMessageThunk, LogNoteOptions, LogNoticeAction, LogNoticeLimits, LogNoticeOptions, LogNotification, LogProgress, LogRecord, LogRecordFilter, LogRedactRule, LogRedactSettings, LogSettings, LogSettingsOptions, LogTimingOptions, LogTransport, LogViewOptions, NoticeLevel } from "./types";
+export { Log } from "./log";
+export { LogLevels } from "./types";
+export { addLogSettings } from "./log.settings";
+export { addLogCommands } from "./log.commands";
+export { LogNotificationModal } from "./log.history";
+export { LogFileTransport } from "./log.file";
+export { LogNoteTransport } from "./log.note";
+export { LogView, registerLogView } from "./log.view";
@@ -0,0 +1,112 @@
+import { LogBufferSettings,
+         LogLevel,
+         LogRecord,
+         LogRecordFilter,
+         LogTransport       } from "./types"
+import { matchRecord        } from "./log.internal"
+
+/**
+ * Default number of records kept by a {@link LogBuffer}.
+ */
+const DEFAULT_BUFFER_SIZE = 100;
+
+/**
+ * A bounded ring buffer of recent log records.
+ *
+ * The buffer is a regular {@link LogTransport}: it is registered with the
+ * root logger and receives records through the same level logic as every
+ * other transport. Its capacity and threshold are read from the live
+ * {@link LogBufferSettings} on every call, so changes to the settings take
+ * effect immediately.
+ *
+ * When the buffer is full, the oldest record is overwritten.
+ *
+ * @internal Used by {@link Log}; accessed via `Log.getRecent()`, `Log.clear()`
+ * and `Log.dump()`.
+ */
+export class LogBuffer implements LogTransport {
+  /**
+   * Ring storage. `head` points to the slot that is written next.
+   */
+  private records: LogRecord[] = [];
+  private head = 0;
+
+  /**
+   * @param settings
+   *   Accessor returning the current buffer settings, if any.
+   */
+  constructor(private readonly settings: () => LogBufferSettings | undefined) { }
+
+  /**
+   * The capture threshold from the settings. `undefined` makes the buffer
+   * follow the effective level of the emitting logger.
+   */
+  public get level(): LogLevel | undefined {
+    return this.settings()?.level;
+  }
+
+  /**
+   * The capacity from the settings, normalized to a non-negative integer.
+   */
+  public get size(): number {
+    const size = this.settings()?.size ?? DEFAULT_BUFFER_SIZE;
+    return Number.isFinite(size) && size > 0 ? Math.floor(size) : 0;
+  }
+
+  /**
+   * Adds a record, dropping the oldest one if the buffer is full.
+   *
+   * @param record
+   *   The record to add.
+   */
+  public write(record: LogRecord) {
+    const size = this.size;
+
+    if (this.head !== 0 && this.records.length !== size) {
+      // capacity changed at runtime: restore chronological order first
+      this.records = this.toArray();
+      this.head    = 0;
+    }
+    if (this.records.length > size) {
+      this.records = this.records.slice(this.records.length - size);
+    }
+    if (size === 0) return;
+
+    if (this.records.length < size) {
+      this.records.push(record);
+    } else {
+      this.records[this.head] = record;
+      this.head = (this.head + 1) % size;
+    }
+  }
+
+  /**
+   * Returns the buffered records, oldest first, optionally filtered.
+   *
+   * @param filter
+   *   Optional {@link LogRecordFilter}.
+   * @returns
+   *   A new array of matching records.
+   */
+  public getRecent(filter: LogRecordFilter = {}): LogRecord[] {
+    const { limit } = filter;
+    const records   = this.toArray().filter((record) => matchRecord(record, filter));
+
+    return limit === undefined ? records : records.slice(Math.max(records.length - limit, 0));
+  }
+
+  /**
+   * Removes all buffered records.
+   */
+  public clear() {
+    this.records = [];
+    this.head    = 0;
+  }
+
+  /**
+   * Returns all buffered records in chronological order.
+   */
+  private toArray(): LogRecord[] {
+    return [ ...this.records.slice(this.head), ...this.records.slice(0, this.head) ];
+  }
+}
@@ -0,0 +1,160 @@
+import { Platform,
+         SuggestModal,
+         apiVersion         } from "obsidian";
+import type { App,
+              Command,
+              Plugin        } from "obsidian";
+import { DEBUG,
+         LogLevels,
+         LogLevel           } from "./types"
+import { LOG_LEVEL_LABELS,
+         persist            } from "./log.settings"
+import { LogNotificationModal } from "./log.history"
+import { Log                } from "./log"
+
+/**
+ * A suggest modal listing all {@link LogLevels}. Choosing a level applies it
+ * via {@link Log.setLevel} and persists it via {@link Log.save}.
+ *
+ * @internal Test-only export
+ */
+export class LogLevelModal extends SuggestModal<LogLevel> {
+  /**
+   * @param app
+   *   The Obsidian app.
+   * @param log
+   *   The logger whose level is changed.
+   */
+  constructor(app: App, private readonly log: Log) {
+    super(app);
+    this.setPlaceholder("Select a log level");
+  }
+
+  /**
+   * Returns the levels whose value or label contains the query.
+   */
+  public getSuggestions(query: string): LogLevel[] {
+    const q = query.trim().toLowerCase();
+    return Object.values(LogLevels)
+      .filter((level) => level.includes(q) || LOG_LEVEL_LABELS[level].toLowerCase().includes(q));
+  }
+
+  /**
+   * Renders a level by its label, marking the current level.
+   */
+  public renderSuggestion(level: LogLevel, el: HTMLElement) {
+    el.setText(level === this.log.getLevel() ? `${LOG_LEVEL_LABELS[level]} (current)` : LOG_LEVEL_LABELS[level]);
+  }
+
+  /**
+   * Applies and persists the chosen level. A failure to save is logged.
+   */
+  public async onChooseSuggestion(level: LogLevel) {
+    if (!this.log.setLevel(level)) return;
+    await persist(this.log, level);
+  }
+}
+
+/**
+ * Describes the runtime environment and the logger's settings as Markdown,
+ * ready to be pasted into a bug report.
+ *
+ * @internal Test-only export
+ */
+export function formatEnvironment(plugin: Plugin, log: Log): string {
+  const platform = [
+    Platform.isMobile ? "mobile" : "desktop",
+    Platform.isMacOS ? "macOS" : Platform.isWin ? "Windows" : Platform.isLinux ? "Linux" : undefined,
+  ].filter(Boolean).join(", ");
+
+  return [
+    `- Plugin: ${plugin.manifest.id} ${plugin.manifest.version}`,
+    `- Obsidian: ${apiVersion}`,
+    `- Platform: ${platform}`,
+    `- User agent: ${navigator.userAgent}`,
+    `- Log level: ${log.getLevel()}${log.isElevated() ? " (elevated)" : ""}`,
+    "",
+    "```json",
+    JSON.stringify(log.getSettings(), null, 2),
+    "```",
+  ].join("\n");
+}
+
+/**
+ * Registers the standard logging commands on the host plugin:
+ * - **Set log level…** opens a suggest modal over all {@link LogLevels};
+ *   the chosen level is applied immediately and persisted via {@link Log.save}.
+ * - **Toggle debug logging for this session** elevates the level to
+ *   `"debug"` without a timeout (see {@link Log.elevate}) or restores it.
+ *   The saved level is never touched and is restored on plugin unload.
+ * - **Copy environment and log settings to clipboard** copies plugin and
+ *   Obsidian versions, the platform and the log settings for bug reports.
+ *
+ * Failures to save the level or to write the clipboard are logged via `log`.
+ * - **Show recent notifications** opens a {@link LogNotificationModal}
+ *   listing the notices recently shown by the logger.
+ *
+ * Obsidian prefixes command ids with the plugin id. Commands of loggers whose
+ * name differs from the plugin id (e.g. of a library module) additionally
+ * carry the logger name in their id and title, so several loggers can
+ * register their commands with the same plugin.
+ *
+ * @param plugin
+ *   The plugin to register the commands with.
+ * @param log
+ *   The logger the commands control.
+ * @returns
+ *   The registered commands.
+ *
+ * @example
+ * async onload() {
+ *   const log = await Log.attach(this);
+ *   addLogCommands(this, log);
+ * }
+ */
+export function addLogCommands(plugin: Plugin, log: Log): Command[] {
+  const name   = log.getName();
+  const own    = name === plugin.manifest.id;
+  const id     = (suffix: string) => own ? `log-${suffix}` : `log-${name}-${suffix}`;
+  const title  = (text: string)   => own ? text : `${text} (${name})`;
+
+  plugin.register(() => log.restore());
+
+  return [
+    plugin.addCommand({
+      id:       id("set-level"),
+      name:     title("Set log level…"),
+      callback: () => new LogLevelModal(plugin.app, log).open(),
+    }),
+    plugin.addCommand({
+      id:       id("toggle-debug"),
+      name:     title("Toggle debug logging for this session"),
+      callback: () => {
+        if (log.isElevated()) {
+          log.restore();
+          log.notice("Debug logging disabled", "success");
+        } else {
+          log.elevate(DEBUG, { durationMs: Infinity });
+          log.notice("Debug logging enabled for this session", "success");
+        }
+      },
+    }),
+    plugin.addCommand({
+      id:       id("copy-environment"),
+      name:     title("Copy environment and log settings to clipboard"),
+      callback: async () => {
+        try {
+          await navigator.clipboard.writeText(formatEnvironment(plugin, log));
+          log.notice("Environment copied to clipboard", "success");
+        } catch (error) {
+          log.error(error, "Failed to copy the environment");
+        }
+      },
+    }),
+    plugin.addCommand({
+      id:       id("show-notifications"),
+      name:     title("Show recent notifications"),
+      callback: () => new LogNotificationModal(plugin.app, log).open(),
+    }),
+  ];
+}
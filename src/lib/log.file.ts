@@ -0,0 +1,248 @@
+import type { DataAdapter,
+              Plugin             } from "obsidian"
+import { LogFileOptions,
+         LogLevel,
+         LogRecord,
+         LogTransport           } from "./types"
+import { formatDay,
+         formatLogFileName,
+         parseLogFileName,
+         serializeRecord        } from "./log.internal"
+
+/**
+ * Default maximum size of a single archive file (1 MiB).
+ */
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Default number of archive files kept.
+ */
+const DEFAULT_MAX_FILES = 7;
+
+/**
+ * Default delay between writing a record and appending the batch to disk.
+ */
+const DEFAULT_FLUSH_INTERVAL_MS = 2000;
+
+/**
+ * A pending archive line together with the local day it belongs to.
+ */
+interface LogFileLine {
+  day: string;
+  text: string;
+}
+
+/**
+ * The archive file currently appended to.
+ */
+interface LogFileTarget {
+  day: string;
+  index: number;
+  size: number;
+}
+
+/**
+ * A {@link LogTransport} that archives records as JSON lines in the plugin
+ * folder, using the vault's `DataAdapter`.
+ *
+ * Records are batched and appended to `<dir>/<YYYY-MM-DD>.jsonl`. A new file
+ * is started for every local day and whenever the current file would exceed
+ * {@link LogFileOptions.maxFileSize} (`<YYYY-MM-DD>.1.jsonl`, `.2.jsonl`, ...).
+ * After each rotation, the oldest files beyond {@link LogFileOptions.maxFiles}
+ * are removed.
+ *
+ * Pending records are flushed when the transport is disposed, i.e. when its
+ * logger is disposed or when the plugin passed to the constructor is unloaded.
+ * Call {@link LogFileTransport.flush} to write pending records immediately,
+ * e.g. before collecting the archive for a bug report.
+ *
+ * Write failures never reach the caller of a log method; they are reported
+ * to the console, redacted via {@link LogFileOptions.redact}, and the
+ * affected batch is dropped.
+ *
+ * @example
+ * async onload() {
+ *   const log = await Log.attach(this);
+ *   log.addTransport(new LogFileTransport(this, { level: "debug", redact: (value) => log.redact(value) }));
+ * }
+ */
+export class LogFileTransport implements LogTransport {
+  /**
+   * The capture threshold, see {@link LogFileOptions.level}.
+   */
+  public level?: LogLevel;
+
+  /**
+   * Vault path of the archive folder.
+   */
+  public readonly dir: string;
+
+  private readonly adapter: DataAdapter;
+  private readonly name: string;
+  private readonly maxFileSize: number;
+  private readonly maxFiles: number;
+  private readonly flushIntervalMs: number;
+  private readonly redact: (value: unknown) => unknown;
+
+  private queue: LogFileLine[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private pending: Promise<void> = Promise.resolve();
+  private target?: LogFileTarget;
+  private disposed = false;
+
+  /**
+   * @param plugin
+   *   The plugin whose folder receives the archive. The transport flushes
+   *   pending records when the plugin is unloaded.
+   * @param options
+   *   Optional {@link LogFileOptions}.
+   */
+  constructor(plugin: Plugin, options: LogFileOptions = {}) {
+    const { manifest, app } = plugin;
+    const plugindir = manifest.dir ?? `${app.vault.configDir}/plugins/${manifest.id}`;
+
+    this.adapter         = app.vault.adapter;
+    this.name            = manifest.id;
+    this.level           = options.level;
+    this.dir             = options.dir ?? `${plugindir}/logs`;
+    this.maxFileSize     = options.maxFileSize     ?? DEFAULT_MAX_FILE_SIZE;
+    this.maxFiles        = options.maxFiles        ?? DEFAULT_MAX_FILES;
+    this.flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    this.redact          = options.redact          ?? ((value) => value);
+
+    plugin.register(() => this.dispose());
+  }
+
+  /**
+   * Queues a record and schedules a flush.
+   *
+   * @param record
+   *   The record to archive.
+   */
+  public write(record: LogRecord) {
+    if (this.disposed) return;
+
+    this.queue.push({ day: formatDay(record.timestamp), text: `${serializeRecord(record)}\n` });
+    this.timer ??= setTimeout(() => void this.flush(), this.flushIntervalMs);
+  }
+
+  /**
+   * Appends all queued records to the archive.
+   *
+   * Flushes are serialized, so the returned promise resolves once this and
+   * all previously requested flushes have completed.
+   */
+  public flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const lines = this.queue;
+    this.queue  = [];
+
+    if (lines.length > 0) {
+      this.pending = this.pending
+        .then(() => this.append(lines))
+        .catch((error: unknown) => console.error(this.name, "Log archive failed:", this.redact(error)));
+    }
+    return this.pending;
+  }
+
+  /**
+   * Flushes pending records and stops accepting new ones.
+   * Calling `dispose()` more than once has no effect.
+   */
+  public dispose() {
+    if (this.disposed) return;
+
+    void this.flush();
+    this.disposed = true;
+  }
+
+  /**
+   * Appends a batch of lines, rotating files as needed.
+   */
+  private async append(lines: LogFileLine[]) {
+    if (!(await this.adapter.exists(this.dir))) {
+      await this.adapter.mkdir(this.dir);
+    }
+
+    let chunk = "";
+    let path  = "";
+
+    for (const line of lines) {
+      const size    = byteLength(line.text);
+      const created = await this.resolveTarget(line.day, size);
+      const target  = this.target as LogFileTarget;
+      const next    = `${this.dir}/${formatLogFileName(target.day, target.index)}`;
+
+      if (next !== path) {
+        if (chunk) await this.adapter.append(path, chunk);
+        if (created) await this.prune();
+
+        chunk = "";
+        path  = next;
+      }
+      chunk       += line.text;
+      target.size += size;
+    }
+    if (chunk) await this.adapter.append(path, chunk);
+  }
+
+  /**
+   * Selects the file that receives a line of `size` bytes for `day`,
+   * starting a new file if the day changed or the current file is full.
+   *
+   * @returns
+   *   `true` if a new file is started.
+   */
+  private async resolveTarget(day: string, size: number): Promise<boolean> {
+    if (this.target?.day !== day) {
+      const index = (await this.listFiles())
+        .filter((file) => file.day === day)
+        .reduce((max, file) => Math.max(max, file.index), 0);
+      const stat  = await this.adapter.stat(`${this.dir}/${formatLogFileName(day, index)}`);
+
+      this.target = { day, index, size: stat?.size ?? 0 };
+      if (!stat) return true;
+    }
+    if (this.target.size > 0 && this.target.size + size > this.maxFileSize) {
+      this.target = { day, index: this.target.index + 1, size: 0 };
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Removes the oldest archive files, keeping `maxFiles - 1` of them to
+   * make room for the file that is about to be started.
+   */
+  private async prune() {
+    const files  = await this.listFiles();
+    const excess = files.length - Math.max(this.maxFiles - 1, 0);
+
+    for (const file of files.slice(0, Math.max(excess, 0))) {
+      await this.adapter.remove(file.path);
+    }
+  }
+
+  /**
+   * Lists the archive files in the archive folder, oldest first.
+   */
+  private async listFiles(): Promise<{ path: string; day: string; index: number }[]> {
+    if (!(await this.adapter.exists(this.dir))) return [];
+
+    return (await this.adapter.list(this.dir)).files
+      .flatMap((path) => {
+        const parsed = parseLogFileName(path);
+        return parsed ? [ { path, ...parsed } ] : [];
+      })
+      .sort((a, b) => a.day.localeCompare(b.day) || a.index - b.index);
+  }
+}
+
+/**
+ * Returns the UTF-8 encoded length of a string in bytes.
+ */
+function byteLength(text: string): number {
+  return new TextEncoder().encode(text).length;
+}
@@ -0,0 +1,99 @@
+import { Modal,
+         Notice             } from "obsidian";
+import type { App          } from "obsidian";
+import { LogNotification    } from "./types"
+import { formatNotification,
+         formatTime,
+         getNoticeClass     } from "./log.internal"
+import { Log                } from "./log"
+
+/**
+ * A modal listing the notices recently shown by a logger, newest first
+ * (see {@link Log.getNotifications}).
+ *
+ * Every notification is rendered as collapsible entry: the summary shows
+ * time and message, the expanded entry the full text including the stack of
+ * an attached error and a button copying it. The toolbar copies all
+ * notifications or clears the history.
+ *
+ * @example
+ * this.addCommand({
+ *   id:       "show-notifications",
+ *   name:     "Show recent notifications",
+ *   callback: () => new LogNotificationModal(this.app, log).open(),
+ * });
+ */
+export class LogNotificationModal extends Modal {
+  /**
+   * @param app
+   *   The Obsidian app.
+   * @param log
+   *   The logger whose notifications are listed.
+   */
+  constructor(app: App, private readonly log: Log) {
+    super(app);
+  }
+
+  /**
+   * Renders the notifications when the modal opens.
+   */
+  public onOpen() {
+    this.setTitle("Recent notifications");
+    this.render();
+  }
+
+  /**
+   * Removes the rendered notifications when the modal closes.
+   */
+  public onClose() {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Copies the given notifications, newest first, to the clipboard.
+   * A failure to write the clipboard is logged.
+   *
+   * @param notifications
+   *   The notifications to copy.
+   */
+  public async copy(notifications: LogNotification[]) {
+    try {
+      await navigator.clipboard.writeText(notifications.map(formatNotification).join("\n\n"));
+      new Notice(`Copied ${notifications.length} notification${notifications.length === 1 ? "" : "s"}`);
+    } catch (error) {
+      this.log.error(error, "Failed to copy notifications");
+    }
+  }
+
+  /**
+   * Renders the toolbar and the notifications into the content element.
+   */
+  private render() {
+    const { contentEl } = this;
+    const notifications = this.log.getNotifications().reverse();
+
+    contentEl.empty();
+
+    const toolbar = contentEl.createDiv({ cls: "log-notifications-toolbar" });
+    toolbar.createEl("button", { text: "Copy all" }).onclick = () => this.copy(notifications);
+    toolbar.createEl("button", { text: "Clear" }).onclick = () => {
+      this.log.clearNotifications();
+      this.render();
+    };
+
+    if (!notifications.length) {
+      contentEl.createEl("p", { cls: "log-notifications-empty", text: "No notifications yet." });
+      return;
+    }
+
+    const list = contentEl.createDiv({ cls: "log-notifications" });
+    for (const notification of notifications) {
+      const cls   = getNoticeClass(notification.level);
+      const entry = list.createEl("details", { cls: [ "log-notification", ...(cls ? [ cls ] : []) ] });
+
+      entry.createEl("summary", { text: `${formatTime(notification.timestamp)} ${notification.message}` });
+      entry.createEl("pre", { text: formatNotification(notification) });
+      entry.createEl("button", { text: "Copy" }).onclick = () => this.copy([ notification ]);
+    }
+  }
+}
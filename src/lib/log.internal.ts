@@ -7,8 +7,17 @@ import { DEBUG,
          WARN,
          ExclusiveLogLevel,
          LogLevel,
+         LogFields,
+         LogFieldValue,
+         LogErrorInfo,
          LogLevels,
+         LogMessageThunk,
+         LogNoticeOptions,
+         LogNotification,
+         LogRecord,
+         LogRecordFilter,
          LogSettings,
+         LogTimingOptions,
          NoticeLevel        } from "./types"
 
 /**
@@ -155,6 +164,135 @@ export function isEnabled( msglvl: ExclusiveLogLevel, setlvl: LogLevel): boolean
   else return LOG_LEVEL_ORDER[msglvl] <= LOG_LEVEL_ORDER[setlvl];
 }
 
+/**
+ * Returns the more verbose of two log levels.
+ *
+ * Verbosity follows {@link LOG_LEVEL_ORDER}, i.e. `"none"` is the least and
+ * `"info"` the most verbose level.
+ *
+ * @param a
+ *   The first log level.
+ * @param b
+ *   The second log level.
+ * @returns
+ *   The more verbose level; `a` if both are equally verbose.
+ *
+ * @example
+ * mostVerbose("warn", "debug"); // "debug"
+ * mostVerbose("info", "error"); // "info"
+ *
+ * @internal Test-only export
+ */
+export function mostVerbose(a: LogLevel, b: LogLevel): LogLevel {
+  return LOG_LEVEL_ORDER[b] > LOG_LEVEL_ORDER[a] ? b : a;
+}
+
+/**
+ * Cache of compiled namespace patterns, keyed by pattern.
+ *
+ * Patterns are compiled on first use and reused for every subsequent log
+ * call, as the set of patterns in use is small and rarely changes.
+ */
+const NAMESPACE_PATTERNS = new Map<string, RegExp>();
+
+/**
+ * Checks whether a namespace matches a `debug`-style namespace pattern.
+ *
+ * `*` matches any sequence of characters (including `:` and the empty
+ * sequence); all other characters match literally.
+ *
+ * @param pattern
+ *   The namespace pattern, e.g. `"sync:*"`.
+ * @param namespace
+ *   The namespace to test, e.g. `"sync:remote"`.
+ * @returns
+ *   `true` if the namespace matches the pattern, `false` otherwise.
+ *
+ * @example
+ * matchNamespace("sync:*", "sync:remote"); // true
+ * matchNamespace("sync:*", "sync");        // false
+ * matchNamespace("indexer", "indexer");    // true
+ *
+ * @internal Test-only export
+ */
+export function matchNamespace(pattern: string, namespace: string): boolean {
+  let regex = NAMESPACE_PATTERNS.get(pattern);
+  if (!regex) {
+    const source = pattern.split("*")
+                          .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+                          .join(".*");
+    regex = new RegExp(`^${source}$`);
+    NAMESPACE_PATTERNS.set(pattern, regex);
+  }
+  return regex.test(namespace);
+}
+
+/**
+ * Computes the specificity of a namespace pattern.
+ *
+ * Exact patterns (without `*`) are the most specific ones and rank above
+ * every wildcard pattern. Wildcard patterns rank by their number of literal
+ * (non-`*`) characters.
+ *
+ * @param pattern
+ *   The namespace pattern.
+ * @returns
+ *   The specificity; higher values are more specific.
+ *
+ * @example
+ * namespaceSpecificity("sync:remote"); // Infinity
+ * namespaceSpecificity("sync:*");      // 5
+ * namespaceSpecificity("*");           // 0
+ *
+ * @internal Test-only export
+ */
+export function namespaceSpecificity(pattern: string): number {
+  if (!pattern.includes("*")) return Infinity;
+  else return pattern.replace(/\*/g, "").length;
+}
+
+/**
+ * Resolves the effective log level for a logger namespace.
+ *
+ * The namespace rules in {@link LogSettings.namespaces} are evaluated and the
+ * level of the most specific matching pattern is returned (see
+ * {@link namespaceSpecificity}). On equal specificity the rule defined first
+ * wins. Rules with an invalid level are ignored.
+ *
+ * If there is no namespace (root logger), no rules or no matching rule,
+ * the global {@link LogSettings.loglevel} is returned.
+ *
+ * @param settings
+ *   The logger settings.
+ * @param namespace
+ *   The namespace of the logger, or `undefined` for the root logger.
+ * @returns
+ *   The effective log level for the namespace.
+ *
+ * @example
+ * const settings = { loglevel: "warn", namespaces: { "sync:*": "debug" } };
+ * resolveLevel(settings, "sync:remote"); // "debug"
+ * resolveLevel(settings, "indexer");     // "warn"
+ *
+ * @internal Test-only export
+ */
+export function resolveLevel(settings: LogSettings, namespace?: string): LogLevel {
+  if (!namespace || !settings.namespaces) return settings.loglevel;
+
+  let level       = settings.loglevel;
+  let specificity = -1;
+  for (const [ pattern, rule ] of Object.entries(settings.namespaces)) {
+    if (!isLogLevel(rule) || !matchNamespace(pattern, namespace)) continue;
+
+    const current = namespaceSpecificity(pattern);
+    if (current > specificity) {
+      level       = rule;
+      specificity = current;
+    }
+  }
+  return level;
+}
+
 /**
  * Runtime type guard to check whether a value is a valid {@link LogLevel}.
  *
@@ -176,6 +314,51 @@ export function isLogLevel(value: unknown): value is LogLevel {
   return typeof value === "string" && LOG_LEVEL_SET.has(value as LogLevel);
 }
 
+/**
+ * Checks whether a value is a valid {@link NoticeLevel}, i.e. a log level
+ * other than `"none"` or `"success"`.
+ *
+ * @param value
+ *   The value to check.
+ * @returns
+ *   `true` if the value is a notice level, `false` otherwise.
+ *
+ * @example
+ * isNoticeLevel("success"); // true
+ * isNoticeLevel("none");    // false
+ *
+ * @internal Test-only export
+ */
+export function isNoticeLevel(value: unknown): value is NoticeLevel {
+  return value === SUCCESS || (isLogLevel(value) && value !== NONE);
+}
+
+/**
+ * Runtime check for strings that are meant as a notice level but are not
+ * one, such as `"Warn"`, `" error"` or `"none"`. {@link Log.notice} warns
+ * about them instead of showing them as thrown value.
+ *
+ * @param value
+ *   The value to check.
+ * @returns
+ *   `true` if the value is a string that is not a notice level, but equals
+ *   a log level or `"success"` when trimmed and lowercased.
+ *
+ * @example
+ * isLevelLike("Warn");   // true
+ * isLevelLike("none");   // true
+ * isLevelLike("warn");   // false
+ * isLevelLike("ENOENT"); // false
+ *
+ * @internal Test-only export
+ */
+export function isLevelLike(value: unknown): value is string {
+  if (typeof value !== "string" || isNoticeLevel(value)) return false;
+
+  const normalized = value.trim().toLowerCase();
+  return normalized === SUCCESS || isLogLevel(normalized);
+}
+
 /**
  * Maps a given `NoticeLevel` to the corresponding `ExclusiveLogLevel` used for logging.
  *
@@ -218,19 +401,144 @@ export function getLogLevel(level?: NoticeLevel | Error): ExclusiveLogLevel {
   else return INFO // undefined or info will return info
 }
 
+/**
+ * Returns the CSS class coloring a notice of the given level:
+ * - "error" → `notice-error` (red)
+ * - "warn" → `notice-warn` (yellow)
+ * - "info" → `notice-info` (blue)
+ * - "success" → `notice-success` (green)
+ * - "log" → no class (neutral / default)
+ *
+ * @param level
+ *   The level of the notice.
+ * @returns
+ *   The CSS class, or an empty string for neutral notices.
+ *
+ * @internal Test-only export
+ */
+export function getNoticeClass(level: ExclusiveLogLevel | typeof SUCCESS): string {
+  switch (level) {
+    case ERROR:   return "notice-error";
+    case WARN:    return "notice-warn";
+    case INFO:    return "notice-info";
+    case SUCCESS: return "notice-success";
+    default:      return ""; // log and debug are neutral
+  }
+}
+
+/**
+ * Checks whether a notice of the given level passes the notice threshold
+ * ({@link LogSettings.noticeLevel}).
+ *
+ * Precedence:
+ * - `"debug"` notices are never shown,
+ * - without a valid threshold, all other notices are shown,
+ * - otherwise the console level of the notice (see {@link getLogLevel})
+ *   must be enabled under the threshold, i.e. `"success"` ranks like `"debug"`.
+ *
+ * @param level
+ *   The level of the notice.
+ * @param noticeLevel
+ *   The configured notice threshold, if any.
+ * @returns
+ *   `true` if the notice is shown.
+ *
+ * @example
+ * isNoticeEnabled("error", "warn");    // true
+ * isNoticeEnabled("success", "warn");  // false
+ * isNoticeEnabled("success", "debug"); // true
+ *
+ * @internal Test-only export
+ */
+export function isNoticeEnabled(level: NoticeLevel, noticeLevel?: LogLevel): boolean {
+  if (level === DEBUG) return false;
+  if (!isLogLevel(noticeLevel)) return true;
+
+  return isEnabled(getLogLevel(level), noticeLevel);
+}
+
+/**
+ * Resolves the display options of a notice.
+ *
+ * Options passed to the call take precedence over the per-level defaults of
+ * {@link LogSettings.notices}. Within each source, `persistent` takes
+ * precedence over `duration` and results in a duration of `0`, which keeps
+ * an Obsidian notice visible until it is dismissed.
+ *
+ * @param settings
+ *   The logger settings providing the per-level defaults.
+ * @param level
+ *   The level of the notice; `Error` notices use the `"error"` defaults.
+ * @param options
+ *   The options passed to the call.
+ * @returns
+ *   The notice duration (`undefined` for Obsidian's default) and whether
+ *   the notice is suppressed.
+ *
+ * @example
+ * resolveNoticeOptions({ loglevel: "info", notices: { error: { persistent: true } } }, "error");
+ * // → { duration: 0, silent: false }
+ *
+ * @internal Test-only export
+ */
+export function resolveNoticeOptions(settings: LogSettings, level: NoticeLevel, options: LogNoticeOptions = {}): { duration?: number; silent: boolean } {
+  const sources  = [ options, settings.notices?.[level] ?? {} ];
+  const duration = (source: LogNoticeOptions) => source.persistent ? 0 :
+    source.duration !== undefined && Number.isFinite(source.duration) && source.duration >= 0 ? source.duration : undefined;
+
+  return {
+    duration: sources.map(duration).find((value) => value !== undefined),
+    silent:   sources.find((source) => source.silent !== undefined)?.silent ?? false,
+  };
+}
+
+/**
+ * Resolves the options of a timing helper ({@link Log.timeEnd},
+ * {@link Log.measure}).
+ *
+ * Options passed to the call take precedence over the defaults of
+ * {@link LogSettings.timing}. Invalid levels and thresholds are ignored.
+ *
+ * @param settings
+ *   The logger settings providing the defaults.
+ * @param options
+ *   The options passed to the call.
+ * @returns
+ *   The level of the duration message (defaults to `"debug"`) and the
+ *   threshold of slow durations, if any.
+ *
+ * @example
+ * resolveTimingOptions({ loglevel: "info", timing: { slowMs: 250 } }, { level: "info" });
+ * // → { level: "info", slowMs: 250 }
+ *
+ * @internal Test-only export
+ */
+export function resolveTimingOptions(settings: LogSettings, options: LogTimingOptions = {}): { level: ExclusiveLogLevel; slowMs?: number } {
+  const sources = [ options, settings.timing ?? {} ];
+  const level   = (source: LogTimingOptions) => isLogLevel(source.level) && (source.level as LogLevel) !== NONE ? source.level : undefined;
+  const slowMs  = (source: LogTimingOptions) =>
+    source.slowMs !== undefined && Number.isFinite(source.slowMs) && source.slowMs >= 0 ? source.slowMs : undefined;
+
+  return {
+    level:  sources.map(level).find((value) => value !== undefined) ?? DEBUG,
+    slowMs: sources.map(slowMs).find((value) => value !== undefined),
+  };
+}
+
 /**
  * Resolves and normalizes logger settings.
  *
  * Behavior:
  * - If no settings are provided, a new settings object with default values
  *   is created.
- * - If settings are provided but contain an invalid loglevel, the loglevel
- *   is mutated to the default value.
+ * - If settings are provided and valid, the **same object** is returned.
+ * - If settings are provided but contain an invalid loglevel, a **copy**
+ *   with the default loglevel is returned. The input is never mutated.
  *
  * Note:
- * The settings object is intentionally mutable. This allows external
- * configuration (e.g. Obsidian plugin settings) to change the effective
- * log level at runtime.
+ * A valid settings object is intentionally used as provided. This allows
+ * external configuration (e.g. Obsidian plugin settings) to change the
+ * effective log level at runtime.
  *
  * @param settings
  *   Optional logger settings provided by the caller.
@@ -243,12 +551,603 @@ export function resolveSettings(settings?: LogSettings): LogSettings {
   }
 
   if (!isLogLevel(settings.loglevel)) {
-    settings.loglevel = INFO;
+    return { ...settings, loglevel: INFO };
   }
 
   return settings;
 }
 
+/**
+ * Extracts persisted logger settings from a plugin's data (`data.json`).
+ *
+ * The settings are expected under `data[key]`. If the data or the entry is
+ * missing or not an object, a **copy** of `defaults` is used instead, so that
+ * later runtime changes never alter the caller's defaults object.
+ * In both cases the result is validated via {@link resolveSettings}.
+ *
+ * @param data
+ *   The plugin data as returned by `Plugin.loadData()`, may be `null`.
+ * @param key
+ *   The property holding the logger settings.
+ * @param defaults
+ *   Optional settings to use if nothing has been persisted yet.
+ * @returns
+ *   A guaranteed valid {@link LogSettings} object.
+ *
+ * @example
+ * extractSettings({ log: { loglevel: "debug" } }, "log");  // { loglevel: "debug" }
+ * extractSettings(null, "log", { loglevel: "warn" });      // { loglevel: "warn" }
+ *
+ * @internal Test-only export
+ */
+export function extractSettings(data: unknown, key: string, defaults?: LogSettings): LogSettings {
+  const stored = isRecord(data) ? data[key] : undefined;
+
+  if (isRecord(stored)) {
+    return resolveSettings(stored as unknown as LogSettings);
+  }
+  else return resolveSettings(defaults ? { ...defaults } : undefined);
+}
+
+/**
+ * Runtime type guard for plain, non-null objects.
+ *
+ * @param value
+ *   The value to check.
+ * @returns
+ *   `true` if the value is a non-null object that is not an array.
+ *
+ * @internal Test-only export
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks whether two settings objects describe the same configuration.
+ *
+ * Used by `Log.init` to detect repeated initialization with conflicting
+ * settings. Identical references are always equal; otherwise the objects
+ * are compared by their JSON representation, which covers the log level
+ * and all plain configuration values.
+ *
+ * @param a
+ *   The first settings object.
+ * @param b
+ *   The second settings object.
+ * @returns
+ *   `true` if both objects describe the same configuration, `false` otherwise.
+ *
+ * @example
+ * isSameSettings({ loglevel: "info" }, { loglevel: "info" });  // true
+ * isSameSettings({ loglevel: "info" }, { loglevel: "debug" }); // false
+ *
+ * @internal Test-only export
+ */
+export function isSameSettings(a: LogSettings, b: LogSettings): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Creates a normalized {@link LogRecord} for the given message.
+ *
+ * The record captures the moment of the log call. It is created only when
+ * at least one transport is interested in the message, and is shared between
+ * all transports afterwards.
+ *
+ * @param msglvl
+ *   The resolved log level of the message.
+ * @param pluginname
+ *   The name of the plugin or module emitting the message.
+ * @param namespace
+ *   The namespace of the emitting child logger, or `undefined` for
+ *   the root logger.
+ * @param args
+ *   The raw message arguments, without the plugin name prefix.
+ * @param fields
+ *   Optional structured metadata. If provided, the first argument is taken
+ *   as the record's `message` and a shallow copy of `fields` is stored, so
+ *   later mutations by the caller do not alter the record.
+ * @returns
+ *   A new {@link LogRecord}.
+ *
+ * @example
+ * createLogRecord("info", "MyPlugin", undefined, [ "Plugin loaded" ]);
+ * // → { level: "info", pluginname: "MyPlugin", timestamp: 1767225600000, args: [ "Plugin loaded" ] }
+ *
+ * createLogRecord("info", "MyPlugin", "indexer", [ "Indexed" ], { durationMs: 12 });
+ * // → { ..., namespace: "indexer", args: [ "Indexed" ], message: "Indexed", fields: { durationMs: 12 } }
+ *
+ * @internal Test-only export
+ */
+export function createLogRecord(msglvl: ExclusiveLogLevel, pluginname: string, namespace: string | undefined, 
+                                args: unknown[], fields?: LogFields): LogRecord {
+  const record: LogRecord = {
+    level:     msglvl,
+    pluginname,
+    ...(namespace ? { namespace } : {}),
+    timestamp: Date.now(),
+    args
+  };
+
+  if (!fields) return record;
+  else return { ...record, message: String(args[0]), fields: { ...fields } };
+}
+
+/**
+ * Determines whether the arguments of a level method consist of a single
+ * {@link LogMessageThunk}.
+ *
+ * @param data
+ *   The arguments passed to a level method.
+ * @returns
+ *   `true` if the only argument is a function.
+ *
+ * @example
+ * isLogThunk([ () => [ "State:", state ] ]); // true
+ * isLogThunk([ "State:", state ]);           // false
+ *
+ * @internal Test-only export
+ */
+export function isLogThunk(data: unknown[]): data is [ LogMessageThunk ] {
+  return data.length === 1 && typeof data[0] === "function";
+}
+
+/**
+ * Calls a {@link LogMessageThunk} and returns the message arguments it
+ * computed. An array result is used as arguments, any other result as single
+ * argument. A thunk that throws is reported in place of its message, so that
+ * logging never breaks the caller.
+ *
+ * @param thunk
+ *   The function computing the message arguments.
+ * @returns
+ *   The message arguments.
+ *
+ * @example
+ * evaluateLogThunk(() => [ "Indexed", 12 ]); // [ "Indexed", 12 ]
+ * evaluateLogThunk(() => "Indexed");         // [ "Indexed" ]
+ *
+ * @internal Test-only export
+ */
+export function evaluateLogThunk(thunk: LogMessageThunk): unknown[] {
+  try {
+    const result = thunk();
+    return Array.isArray(result) ? result : [ result ];
+  } catch (e) {
+    return [ "Failed to evaluate log message:", e ];
+  }
+}
+
+/**
+ * Builds the console prefix of a logger: the plugin name, followed by
+ * the namespace of a child logger.
+ *
+ * @param pluginname
+ *   The name of the plugin or module.
+ * @param namespace
+ *   The namespace of a child logger, or `undefined` for the root logger.
+ * @returns
+ *   The prefix, e.g. `"my-plugin"` or `"my-plugin:sync"`.
+ *
+ * @example
+ * formatPrefix("my-plugin", "sync"); // "my-plugin:sync"
+ *
+ * @internal Test-only export
+ */
+export function formatPrefix(pluginname: string, namespace?: string): string {
+  return namespace ? `${pluginname}:${namespace}` : pluginname;
+}
+
+/**
+ * Matches field values that can be rendered without quotes, i.e. values
+ * that contain neither whitespace, quotes nor `=` and are not empty.
+ */
+const BARE_FIELD_VALUE = /^[^\s"'=]+$/;
+
+/**
+ * Renders a single structured field value for console output.
+ *
+ * Strings are rendered verbatim if they are "bare" (see {@link BARE_FIELD_VALUE}),
+ * otherwise they are quoted via `JSON.stringify`. All other values are
+ * converted with `String()`.
+ *
+ * @param value
+ *   The field value to render.
+ * @returns
+ *   The rendered value.
+ *
+ * @example
+ * formatFieldValue("a.md");      // a.md
+ * formatFieldValue("my note");   // "my note"
+ * formatFieldValue(12);          // 12
+ *
+ * @internal Test-only export
+ */
+export function formatFieldValue(value: LogFieldValue): string {
+  if (typeof value === "string") {
+    return BARE_FIELD_VALUE.test(value) ? value : JSON.stringify(value);
+  }
+  else return String(value);
+}
+
+/**
+ * Renders structured fields as a single, grep-friendly `key=value` string.
+ *
+ * Fields are rendered in insertion order and separated by a single space.
+ * Fields with an `undefined` value are omitted.
+ *
+ * @param fields
+ *   The fields to render.
+ * @returns
+ *   The rendered fields, or an empty string if there is nothing to render.
+ *
+ * @example
+ * formatFields({ file: "daily/2026-01-01.md", durationMs: 12 });
+ * // → file=daily/2026-01-01.md durationMs=12
+ *
+ * @internal Test-only export
+ */
+export function formatFields(fields: LogFields): string {
+  return Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${formatFieldValue(value)}`)
+    .join(" ");
+}
+
+/**
+ * Formats a timestamp as a local calendar day (`YYYY-MM-DD`).
+ *
+ * Used to name and rotate log archive files, so that one file
+ * (or a series of rotated files) covers exactly one local day.
+ *
+ * @param timestamp
+ *   Milliseconds since the epoch.
+ * @returns
+ *   The local day, e.g. `"2026-01-31"`.
+ *
+ * @internal Test-only export
+ */
+export function formatDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad  = (value: number) => String(value).padStart(2, "0");
+
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Formats a timestamp as a local time of day (`HH:MM:SS`).
+ *
+ * @param timestamp
+ *   Milliseconds since the epoch.
+ * @returns
+ *   The local time, e.g. `"09:05:00"`.
+ *
+ * @internal Test-only export
+ */
+export function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad  = (value: number) => String(value).padStart(2, "0");
+
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Renders a single log argument as plain text.
+ *
+ * Strings are returned verbatim, errors as `name: message`, other objects
+ * as JSON (falling back to `String()` if they cannot be serialized) and
+ * all remaining values via `String()`.
+ *
+ * @param value
+ *   The argument to render.
+ * @returns
+ *   The rendered argument.
+ *
+ * @example
+ * formatArg(new TypeError("bad input"));  // TypeError: bad input
+ * formatArg({ id: 1 });                   // {"id":1}
+ *
+ * @internal Test-only export
+ */
+export function formatArg(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  if (typeof value === "object" && value !== null) {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Own properties of errors that are normalized explicitly by {@link normalizeError}.
+ */
+const ERROR_KEYS = new Set([ "name", "message", "stack", "cause", "errors" ]);
+
+/**
+ * Maximum depth of `cause` chains and aggregated errors normalized by
+ * {@link normalizeError}.
+ */
+const MAX_ERROR_DEPTH = 8;
+
+/**
+ * Normalizes any thrown value into a serializable {@link LogErrorInfo}.
+ *
+ * - `Error`s, `DOMException`s and other objects with a string `message`
+ *   keep name, message and stack. The `cause` chain and the `errors` of an
+ *   `AggregateError` are normalized recursively (cycles and chains deeper
+ *   than eight levels are cut), custom own enumerable properties are kept
+ *   as JSON-compatible values.
+ * - Strings become the message of an `"Error"`.
+ * - All other values are rendered via {@link formatArg}.
+ *
+ * @param value
+ *   The thrown value.
+ * @returns
+ *   The normalized error.
+ *
+ * @example
+ * normalizeError(new Error("Sync failed", { cause: new TypeError("Failed to fetch") }));
+ * // { name: "Error", message: "Sync failed", stack: "...", cause: { name: "TypeError", ... } }
+ * normalizeError("timeout");  // { name: "Error", message: "timeout" }
+ *
+ * @internal Test-only export
+ */
+export function normalizeError(value: unknown): LogErrorInfo {
+  const seen = new WeakSet<object>();
+
+  const normalize = (value: unknown, depth: number): LogErrorInfo => {
+    if (typeof value === "string") return { name: "Error", message: value };
+    if (!isErrorLike(value)) return { name: "Error", message: formatArg(value) };
+
+    seen.add(value);
+
+    const { name, message, stack, cause, errors } = value as { name?: unknown; message: string; stack?: unknown; cause?: unknown; errors?: unknown };
+    const info: LogErrorInfo = { name: typeof name === "string" && name ? name : "Error", message };
+    const nested = (child: unknown) => depth < MAX_ERROR_DEPTH && !(typeof child === "object" && child !== null && seen.has(child));
+
+    if (typeof stack === "string") info.stack = stack;
+    if (cause !== undefined && nested(cause)) info.cause = normalize(cause, depth + 1);
+    if (Array.isArray(errors)) info.errors = errors.filter(nested).map((child) => normalize(child, depth + 1));
+
+    const properties = Object.entries(value)
+      .filter(([ key, property ]) => !ERROR_KEYS.has(key) && typeof property !== "function")
+      .map(([ key, property ]) => [ key, toJsonValue(property) ]);
+    if (properties.length) info.properties = Object.fromEntries(properties);
+
+    return info;
+  };
+
+  return normalize(value, 0);
+}
+
+/**
+ * Whether a value can be treated as an error, i.e. is an `Error` (including
+ * `DOMException` in most runtimes) or an object with a string `message`.
+ */
+function isErrorLike(value: unknown): value is object {
+  return value instanceof Error ||
+         (typeof value === "object" && value !== null && typeof (value as { message?: unknown }).message === "string");
+}
+
+/**
+ * Converts a value into a JSON-compatible value, falling back to `String()`
+ * for values JSON cannot represent (e.g. `bigint`, circular objects).
+ */
+function toJsonValue(value: unknown): unknown {
+  try {
+    const json = JSON.stringify(value);
+    return json === undefined ? String(value) : JSON.parse(json);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Renders a normalized error as plain text: the stack (or `name: message`
+ * if the stack is unavailable), custom properties, the aggregated errors and
+ * the `cause` chain, nested levels indented.
+ *
+ * @param info
+ *   The normalized error (see {@link normalizeError}).
+ * @returns
+ *   The rendered error.
+ *
+ * @example
+ * formatError({ name: "Error", message: "Sync failed", cause: { name: "TypeError", message: "Failed to fetch" } });
+ * // Error: Sync failed
+ * // Caused by: TypeError: Failed to fetch
+ *
+ * @internal Test-only export
+ */
+export function formatError(info: LogErrorInfo): string {
+  const indent = (text: string) => text.replace(/\n/g, "\n  ");
+  const lines  = [ info.stack ?? `${info.name}: ${info.message}` ];
+
+  if (info.properties) lines.push(`Properties: ${JSON.stringify(info.properties)}`);
+  info.errors?.forEach((child, i) => lines.push(`[${i + 1}] ${indent(formatError(child))}`));
+  if (info.cause) lines.push(`Caused by: ${indent(formatError(info.cause))}`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Renders the message of an error notice together with the details of the
+ * error (see {@link formatError}), ready to be pasted into a bug report.
+ *
+ * @param message
+ *   The message of the notice.
+ * @param error
+ *   The thrown value shown by the notice.
+ * @returns
+ *   The message and the error details, separated by a blank line.
+ *
+ * @example
+ * formatErrorDetails("Sync failed", new Error("offline"));
+ * // Sync failed
+ * //
+ * // Error: offline
+ * //     at ...
+ *
+ * @internal Test-only export
+ */
+export function formatErrorDetails(message: string, error: unknown): string {
+  return `${message}\n\n${formatError(normalizeError(error))}`;
+}
+
+/**
+ * Renders a notification of the history as plain text: time, level,
+ * namespace and message on the first line, followed by the error details
+ * (see {@link formatErrorDetails}) if an error is attached.
+ *
+ * @param notification
+ *   The notification to render.
+ * @returns
+ *   The rendered notification.
+ *
+ * @example
+ * formatNotification({ level: "warn", message: "Slow sync", timestamp: 0, namespace: "sync" });
+ * // 1970-01-01T00:00:00.000Z WARN sync: Slow sync
+ *
+ * @internal Test-only export
+ */
+export function formatNotification(notification: LogNotification): string {
+  const { level, message, timestamp, namespace, error } = notification;
+  const head = `${new Date(timestamp).toISOString()} ${level.toUpperCase()}${namespace ? ` ${namespace}:` : ""} ${message}`;
+
+  return error !== undefined ? formatErrorDetails(head, error) : head;
+}
+
+/**
+ * Renders the message, arguments and fields of a record as a single line
+ * of plain text, without time, level or namespace.
+ *
+ * @param record
+ *   The record to render.
+ * @returns
+ *   The rendered text.
+ *
+ * @example
+ * formatRecordText(createLogRecord("info", "p", undefined, [ "Synced" ], { files: 3 }));
+ * // → Synced files=3
+ *
+ * @internal Test-only export
+ */
+export function formatRecordText(record: LogRecord): string {
+  const text = record.message ?? record.args.map(formatArg).join(" ");
+
+  return record.fields ? [ text, formatFields(record.fields) ].filter(Boolean).join(" ") : text;
+}
+
+/**
+ * Checks whether a record matches all criteria of a {@link LogRecordFilter}.
+ * The `limit` criterion applies to a list of records and is ignored here.
+ *
+ * @param record
+ *   The record to check.
+ * @param filter
+ *   The filter to apply.
+ * @returns
+ *   `true` if the record matches.
+ *
+ * @internal Test-only export
+ */
+export function matchRecord(record: LogRecord, filter: LogRecordFilter): boolean {
+  const { level, namespace, since, text } = filter;
+
+  return (level     === undefined || isEnabled(record.level, level)) &&
+         (namespace === undefined || (record.namespace !== undefined && matchNamespace(namespace, record.namespace))) &&
+         (since     === undefined || record.timestamp >= since) &&
+         (!text                   || formatRecordText(record).toLowerCase().includes(text.toLowerCase()));
+}
+
+/**
+ * Matches log archive file names, capturing the day and the optional
+ * rotation index, e.g. `2026-01-31.jsonl` or `2026-01-31.2.jsonl`.
+ */
+const LOG_FILE_NAME = /^(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.jsonl$/;
+
+/**
+ * Builds the name of a log archive file.
+ *
+ * The first file of a day carries no rotation index; files created by
+ * size based rotation are numbered starting at `1`.
+ *
+ * @param day
+ *   The local day as returned by {@link formatDay}.
+ * @param index
+ *   The rotation index within that day.
+ * @returns
+ *   The file name, e.g. `"2026-01-31.jsonl"` or `"2026-01-31.2.jsonl"`.
+ *
+ * @internal Test-only export
+ */
+export function formatLogFileName(day: string, index: number): string {
+  return index > 0 ? `${day}.${index}.jsonl` : `${day}.jsonl`;
+}
+
+/**
+ * Parses the name of a log archive file.
+ *
+ * @param name
+ *   A file name or vault path; only the last path segment is inspected.
+ * @returns
+ *   The day and rotation index, or `undefined` if the name is not a
+ *   log archive file.
+ *
+ * @example
+ * parseLogFileName(".obsidian/plugins/x/logs/2026-01-31.2.jsonl");
+ * // → { day: "2026-01-31", index: 2 }
+ *
+ * @internal Test-only export
+ */
+export function parseLogFileName(name: string): { day: string; index: number } | undefined {
+  const match = LOG_FILE_NAME.exec(name.split("/").pop() ?? "");
+
+  return match ? { day: match[1], index: match[2] ? Number(match[2]) : 0 } : undefined;
+}
+
+/**
+ * Serializes a log record as a single line of JSON.
+ *
+ * The line contains an ISO formatted `time` in addition to the record's
+ * properties. Values that JSON cannot represent are converted, so that a
+ * record never fails to serialize:
+ * - `Error` instances are normalized by {@link normalizeError}, keeping
+ *   their `cause` chain and aggregated errors,
+ * - `bigint`, `symbol` and functions are converted with `String()`,
+ * - objects that were already serialized (e.g. circular references)
+ *   are replaced by `"[Circular]"`.
+ *
+ * @param record
+ *   The record to serialize.
+ * @returns
+ *   The JSON line, without a trailing line break.
+ *
+ * @internal Test-only export
+ */
+export function serializeRecord(record: LogRecord): string {
+  const seen = new WeakSet<object>();
+
+  return JSON.stringify({ time: new Date(record.timestamp).toISOString(), ...record }, (_key, value: unknown) => {
+    if (value instanceof Error) {
+      return normalizeError(value);
+    }
+    if (typeof value === "bigint" || typeof value === "symbol" || typeof value === "function") {
+      return String(value);
+    }
+    if (typeof value === "object" && value !== null) {
+      if (seen.has(value)) return "[Circular]";
+      seen.add(value);
+    }
+    return value;
+  });
+}
+
 /**
  * Warning message displayed the first time a debug-level log is invoked.
  *
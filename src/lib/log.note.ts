@@ -0,0 +1,246 @@
+import type { Plugin,
+              TFile,
+              Vault              } from "obsidian"
+import { ERROR,
+         WARN,
+         LogLevel,
+         LogNoteOptions,
+         LogRecord,
+         LogTransport           } from "./types"
+import { formatArg,
+         formatDay,
+         formatFieldValue,
+         formatTime             } from "./log.internal"
+
+/**
+ * Default delay between writing a record and appending the batch to the note.
+ */
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+/**
+ * Callout types used for records that deserve attention.
+ * All other levels are rendered as list items.
+ */
+const CALLOUTS: Partial<Record<LogRecord["level"], string>> = {
+  [ERROR]: "error",
+  [WARN]:  "warning",
+};
+
+/**
+ * Matches the daily headings written by {@link LogNoteTransport}.
+ */
+const DAY_HEADING = /^## (\d{4}-\d{2}-\d{2})[ \t]*$/gm;
+
+/**
+ * Matches words that may be vault paths, i.e. words with a file extension
+ * that are not already part of a wikilink.
+ */
+const PATH_CANDIDATE = /(?<!\[\[)[^\s"'`[\]()<>|]+\.[A-Za-z0-9]+/g;
+
+/**
+ * The kind of a rendered Markdown block, used to decide whether blocks
+ * need to be separated by a blank line.
+ */
+type LogNoteBlock = "heading" | "item" | "callout";
+
+/**
+ * A {@link LogTransport} that appends a human-readable activity log to a
+ * Markdown note in the vault.
+ *
+ * Records are grouped under a `## YYYY-MM-DD` heading per local day.
+ * `error` and `warn` records are rendered as callouts, all other records as
+ * list items. Paths of existing vault files in messages and fields are turned
+ * into `[[wikilinks]]`.
+ *
+ * Which records are written is decided by {@link LogNoteOptions.level} with
+ * the usual level semantics, e.g. `"warn"` writes warnings and errors only.
+ *
+ * Records are batched and appended via a single `vault.process()` call per
+ * flush. Pending records are flushed when the transport is disposed, i.e.
+ * when its logger is disposed or when the plugin passed to the constructor
+ * is unloaded. Write failures are reported to the console, redacted via
+ * {@link LogNoteOptions.redact}.
+ *
+ * @example
+ * async onload() {
+ *   const log = await Log.attach(this);
+ *   log.addTransport(new LogNoteTransport(this, { path: "Logs/My Plugin.md", level: "info" }));
+ *
+ *   log.event("info", "Renamed note", { from: "Inbox/a.md", to: "Projects/a.md" });
+ * }
+ *
+ * // ## 2026-01-31
+ * //
+ * // - 12:00:00 Renamed note from=Inbox/a.md to=[[Projects/a]]
+ */
+export class LogNoteTransport implements LogTransport {
+  /**
+   * The capture threshold, see {@link LogNoteOptions.level}.
+   */
+  public level?: LogLevel;
+
+  /**
+   * Vault path of the activity note.
+   */
+  public readonly path: string;
+
+  private readonly vault: Vault;
+  private readonly name: string;
+  private readonly linkify: boolean;
+  private readonly flushIntervalMs: number;
+  private readonly redact: (value: unknown) => unknown;
+
+  private queue: LogRecord[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private pending: Promise<void> = Promise.resolve();
+  private disposed = false;
+
+  /**
+   * @param plugin
+   *   The plugin whose vault receives the note. The transport flushes
+   *   pending records when the plugin is unloaded.
+   * @param options
+   *   The {@link LogNoteOptions}.
+   */
+  constructor(plugin: Plugin, options: LogNoteOptions) {
+    this.vault           = plugin.app.vault;
+    this.name            = plugin.manifest.id;
+    this.path            = options.path;
+    this.level           = options.level;
+    this.linkify         = options.linkify         ?? true;
+    this.flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+    this.redact          = options.redact          ?? ((value) => value);
+
+    plugin.register(() => this.dispose());
+  }
+
+  /**
+   * Queues a record and schedules a flush.
+   *
+   * @param record
+   *   The record to append.
+   */
+  public write(record: LogRecord) {
+    if (this.disposed) return;
+
+    this.queue.push(record);
+    this.timer ??= setTimeout(() => void this.flush(), this.flushIntervalMs);
+  }
+
+  /**
+   * Appends all queued records to the note.
+   *
+   * Flushes are serialized, so the returned promise resolves once this and
+   * all previously requested flushes have completed.
+   */
+  public flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const records = this.queue;
+    this.queue    = [];
+
+    if (records.length > 0) {
+      this.pending = this.pending
+        .then(() => this.append(records))
+        .catch((error: unknown) => console.error(this.name, "Log note failed:", this.redact(error)));
+    }
+    return this.pending;
+  }
+
+  /**
+   * Flushes pending records and stops accepting new ones.
+   * Calling `dispose()` more than once has no effect.
+   */
+  public dispose() {
+    if (this.disposed) return;
+
+    void this.flush();
+    this.disposed = true;
+  }
+
+  /**
+   * Appends a batch of records, creating the note and its folder if needed.
+   */
+  private async append(records: LogRecord[]) {
+    const file = this.vault.getAbstractFileByPath(this.path);
+
+    if (file && "extension" in file) {
+      await this.vault.process(file as TFile, (content) => content + this.render(content, records));
+      return;
+    }
+
+    const folder = this.path.split("/").slice(0, -1).join("/");
+    if (folder && !this.vault.getAbstractFileByPath(folder)) {
+      await this.vault.createFolder(folder);
+    }
+    await this.vault.create(this.path, this.render("", records));
+  }
+
+  /**
+   * Renders records as Markdown to be appended to `content`,
+   * adding daily headings where the day changes.
+   */
+  private render(content: string, records: LogRecord[]): string {
+    const lastline = content.trimEnd().split("\n").pop() ?? "";
+
+    let day: string | undefined = [ ...content.matchAll(DAY_HEADING) ].pop()?.[1];
+    let prev: LogNoteBlock | undefined = lastline === "" ? undefined : lastline.startsWith("- ") ? "item" : "heading";
+    let out  = content === "" || content.endsWith("\n") ? "" : "\n";
+
+    const add = (kind: LogNoteBlock, text: string) => {
+      if (prev && !(prev === "item" && kind === "item")) out += "\n";
+      out += `${text}\n`;
+      prev = kind;
+    };
+
+    for (const record of records) {
+      const recordday = formatDay(record.timestamp);
+
+      if (recordday !== day) {
+        add("heading", `## ${recordday}`);
+        day = recordday;
+      }
+
+      const callout = CALLOUTS[record.level];
+      const text    = `${formatTime(record.timestamp)} ${this.formatEntry(record)}`;
+
+      if (callout) add("callout", `> [!${callout}] ${text}`);
+      else         add("item", `- ${text}`);
+    }
+    return out;
+  }
+
+  /**
+   * Renders the namespace, message and fields of a record as a single line.
+   */
+  private formatEntry(record: LogRecord): string {
+    const message = (record.message ?? record.args.map(formatArg).join(" ")).replace(/\s*\n\s*/g, " ");
+    const fields  = Object.entries(record.fields ?? {})
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${typeof value === "string" && this.isFile(value) ? this.toLink(value) : formatFieldValue(value)}`);
+
+    return [
+      record.namespace ? `${record.namespace}:` : "",
+      message.replace(PATH_CANDIDATE, (match) => this.isFile(match) ? this.toLink(match) : match),
+      ...fields,
+    ].filter(Boolean).join(" ");
+  }
+
+  /**
+   * Whether `path` is an existing file in the vault and links are enabled.
+   */
+  private isFile(path: string): boolean {
+    if (!this.linkify) return false;
+
+    const file = this.vault.getAbstractFileByPath(path);
+    return !!file && "extension" in file;
+  }
+
+  /**
+   * Renders a vault path as a wikilink, omitting the `.md` extension of notes.
+   */
+  private toLink(path: string): string {
+    return `[[${path.replace(/\.md$/, "")}]]`;
+  }
+}
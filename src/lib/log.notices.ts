@@ -0,0 +1,202 @@
+import { Notice             } from "obsidian";
+import { LogNoticeAction,
+         LogNoticeLimits    } from "./types"
+
+/**
+ * Default window within which repeated notices are coalesced.
+ */
+const DEFAULT_WINDOW_MS = 5000;
+
+/**
+ * Default maximum number of simultaneously visible notices.
+ */
+const DEFAULT_MAX_NOTICES = 5;
+
+/**
+ * Obsidian's default display time of a notice.
+ */
+export const DEFAULT_NOTICE_MS = 5000;
+
+/**
+ * How {@link LogNotices.show} displays a notice.
+ *
+ * @property cls
+ *   CSS class added to the notice's message element.
+ * @property duration
+ *   Display time in milliseconds, `0` keeps the notice until it is dismissed.
+ * @property actions
+ *   Buttons rendered below the message.
+ * @property onClick
+ *   Invoked when the message is clicked.
+ */
+export interface LogNoticeDisplay {
+  cls?: string;
+  duration?: number;
+  actions?: LogNoticeAction[];
+  onClick?: () => unknown;
+}
+
+/**
+ * A notice shown by {@link LogNotices}, with its repeat bookkeeping.
+ */
+interface LogNoticeEntry {
+  key: string;
+  notice: Notice;
+  count: number;
+  last: number;
+  until: number;
+}
+
+/**
+ * Shows the notices of a plugin, coalescing repeated notices and limiting
+ * the number of simultaneously visible notices.
+ *
+ * - A notice identical to one shown within `windowMs` of its previous
+ *   occurrence updates that notice with a repeat counter (`"text (×3)"`)
+ *   instead of opening a new one. If the original notice has already
+ *   disappeared, a new notice with the current counter is shown.
+ * - While `max` notices are visible, further notices are not shown. Instead,
+ *   a single summary notice counts the suppressed notices.
+ *
+ * Limits are read from the live {@link LogNoticeLimits} on every call.
+ *
+ * @internal Used by {@link Log}; configured via `LogSettings.noticeLimits`.
+ */
+export class LogNotices {
+  /**
+   * Tracked notices, oldest first.
+   */
+  private entries: LogNoticeEntry[] = [];
+  private overflow?: Omit<LogNoticeEntry, "key" | "last">;
+
+  /**
+   * @param settings
+   *   Accessor returning the current notice limits, if any.
+   */
+  constructor(private readonly settings: () => LogNoticeLimits | undefined) { }
+
+  /**
+   * The coalescing window from the settings, normalized to a non-negative number.
+   */
+  public get windowMs(): number {
+    const windowMs = this.settings()?.windowMs ?? DEFAULT_WINDOW_MS;
+    return Number.isFinite(windowMs) && windowMs > 0 ? windowMs : 0;
+  }
+
+  /**
+   * The maximum number of visible notices from the settings, at least `1`.
+   */
+  public get max(): number {
+    const max = this.settings()?.max ?? DEFAULT_MAX_NOTICES;
+    return max === Infinity ? max : Number.isFinite(max) && max >= 1 ? Math.floor(max) : DEFAULT_MAX_NOTICES;
+  }
+
+  /**
+   * Shows a notice, subject to deduplication and flood control.
+   *
+   * @param message
+   *   The text of the notice.
+   * @param display
+   *   Optional class, duration, buttons and click handler of the notice.
+   *   A coalesced notice shows the buttons and click handler of the most
+   *   recent occurrence.
+   * @returns
+   *   The notice displaying the message, or `undefined` if the message was
+   *   suppressed by the flood control.
+   */
+  public show(message: string, display: LogNoticeDisplay = {}): Notice | undefined {
+    const now      = Date.now();
+    const key      = `${display.cls ?? ""}\n${message}`;
+    const windowMs = this.windowMs;
+
+    this.entries = this.entries.filter((entry) => isVisible(entry, now) || now - entry.last <= windowMs);
+
+    const repeated = windowMs > 0 ? this.entries.find((entry) => entry.key === key && now - entry.last <= windowMs) : undefined;
+    if (repeated) {
+      const text = `${message} (×${++repeated.count})`;
+
+      repeated.last = now;
+      if (isVisible(repeated, now)) {
+        decorate(repeated.notice.setMessage(text), display);
+      } else {
+        repeated.notice = createNotice(text, display);
+        repeated.until  = visibleUntil(now, display.duration);
+      }
+      return repeated.notice;
+    }
+
+    if (this.entries.filter((entry) => isVisible(entry, now)).length >= this.max) {
+      this.summarize(now);
+      return undefined;
+    }
+
+    const notice = createNotice(message, display);
+    this.entries.push({ key, notice, count: 1, last: now, until: visibleUntil(now, display.duration) });
+    return notice;
+  }
+
+  /**
+   * Counts a suppressed notice in the summary notice.
+   */
+  private summarize(now: number) {
+    const overflow = this.overflow && isVisible(this.overflow, now) ? this.overflow : undefined;
+    const count    = (overflow?.count ?? 0) + 1;
+    const text     = `${count} more notice${count === 1 ? "" : "s"} suppressed, see the console for details`;
+
+    if (overflow) {
+      overflow.count = count;
+      overflow.notice.setMessage(text);
+    } else {
+      this.overflow = { notice: createNotice(text), count, until: visibleUntil(now) };
+    }
+  }
+}
+
+/**
+ * Creates an Obsidian notice with an optional CSS class on its message element.
+ */
+function createNotice(message: string, display: LogNoticeDisplay = {}): Notice {
+  const notice = new Notice(message, display.duration);
+
+  // was: noticeEl (deprecated since 0.9.7) => messageEl
+  if (display.cls) notice.messageEl.addClass(display.cls);
+  return decorate(notice, display);
+}
+
+/**
+ * Renders the buttons and the click handler of a notice into its message
+ * element. `setMessage()` replaces the content of the message element, so
+ * a coalesced notice is decorated again.
+ */
+function decorate(notice: Notice, display: LogNoticeDisplay): Notice {
+  const { messageEl } = notice;
+
+  // handlers are assigned, not added, so that re-decorating replaces them
+  messageEl.onclick = display.onClick ?? null;
+  if (display.actions?.length) {
+    const bar = messageEl.createDiv({ cls: "log-notice-actions" });
+    for (const action of display.actions) {
+      bar.createEl("button", { text: action.label }).onclick = (event) => {
+        event.stopPropagation();
+        notice.hide();
+        action.callback();
+      };
+    }
+  }
+  return notice;
+}
+
+/**
+ * Returns the time until which a notice shown at `now` is visible.
+ */
+function visibleUntil(now: number, duration?: number): number {
+  return duration === 0 ? Infinity : now + (duration ?? DEFAULT_NOTICE_MS);
+}
+
+/**
+ * Whether a tracked notice is still visible, i.e. neither timed out nor
+ * dismissed by the user.
+ */
+function isVisible(entry: { notice: Notice; until: number }, now: number): boolean {
+  return now < entry.until && entry.notice.containerEl?.isConnected !== false;
+}
@@ -0,0 +1,291 @@
+import { LogRedactRule,
+         LogRedactSettings  } from "./types"
+
+/**
+ * Replacement of redacted secrets.
+ */
+const REDACTED = "<redacted>";
+
+/**
+ * Words that mark a name as holding a secret if they end it, e.g.
+ * `accessToken`, `client_secret` or `PASSWORD`.
+ */
+const SECRET_WORDS = new Set([ "token", "secret", "password", "passwd", "authorization", "cookie", "apikey" ]);
+
+/**
+ * Words that mark a name ending in `key` as holding a secret, e.g. `apiKey`,
+ * `X-Api-Key` or `private_key`.
+ */
+const SECRET_KEY_WORDS = new Set([ "api", "access", "private", "secret" ]);
+
+/**
+ * Splits a name into lowercase words at `_`, `-` and camel-case boundaries.
+ */
+const NAME_BOUNDARY = /[_-]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/;
+
+/**
+ * `name=value`, `"name": "value"` or `name: value` pairs in texts.
+ */
+const NAME_VALUE = new RegExp(`(?<![\\w-])([A-Za-z][\\w-]*)("?\\s*[=:]\\s*"?)(?!(?:Bearer|Basic)\\s)(?!${REDACTED})[^\\s"'&,;]+`, "g");
+
+/**
+ * Built-in text rules, applied after the vault path.
+ */
+const BUILTIN_RULES: readonly ((text: string) => string)[] = [
+  // Authorization header values
+  (text) => text.replace(/\b(Bearer|Basic)\s+[\w\-.~+/]+=*/g, `$1 ${REDACTED}`),
+  // key=value, "token": "value", secret: value
+  redactPairs,
+  // e-mail addresses
+  (text) => text.replace(/[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,}/g, "<email>"),
+];
+
+/**
+ * Redacts secrets and personal data from log arguments and notices
+ * according to the live {@link LogRedactSettings}.
+ *
+ * Strings are redacted by the built-in and caller-supplied rules. Arrays,
+ * plain objects and errors are redacted recursively into copies; values
+ * without anything to redact (and instances of other classes) are returned
+ * unchanged, so identities are kept wherever possible. A value referenced
+ * more than once is redacted into a single copy, cyclic structures into
+ * copies whose cycles point to the copy.
+ *
+ * @internal Used by {@link Log}; configured via `LogSettings.redact`.
+ */
+export class LogRedactor {
+  /**
+   * @param settings
+   *   Accessor returning the current redaction settings, if any.
+   * @param vaultPath
+   *   Accessor returning the absolute base path of the vault, if known.
+   */
+  constructor(private readonly settings: () => LogRedactSettings | undefined,
+              private readonly vaultPath: () => string | undefined) { }
+
+  /**
+   * Whether redaction is enabled. Defaults to `true`.
+   */
+  public get enabled(): boolean {
+    return this.settings()?.enabled !== false;
+  }
+
+  /**
+   * Redacts a text.
+   *
+   * @param text
+   *   The text to redact.
+   * @returns
+   *   The redacted text.
+   */
+  public text(text: string): string {
+    return this.enabled ? applyRules(text, this.rules()) : text;
+  }
+
+  /**
+   * Redacts a value: strings by the rules, arrays, plain objects and errors
+   * recursively. Properties named like secrets are replaced entirely.
+   *
+   * @param value
+   *   The value to redact.
+   * @returns
+   *   The redacted value, or `value` itself if nothing was redacted.
+   */
+  public value<T>(value: T): T {
+    if (!this.enabled) return value;
+
+    const rules = this.rules();
+    // originals mapped to their redacted copies, so that shared references
+    // are redacted alike; a copy is registered before its properties are
+    // walked, so that cycles point to the copy as well
+    const copies = new Map<object, unknown>();
+
+    const walk = (value: unknown, name?: string): unknown => {
+      if (name !== undefined && isSecretName(name) && (typeof value === "string" || typeof value === "number")) {
+        return REDACTED;
+      }
+      if (typeof value === "string") return applyRules(value, rules);
+      if (typeof value !== "object" || value === null) return value;
+      if (copies.has(value)) return copies.get(value);
+
+      if (isError(value)) {
+        copies.set(value, value);
+        const redacted = redactError(value, walk);
+        copies.set(value, redacted);
+        return redacted;
+      }
+
+      // keeps the original if none of its items or properties was redacted
+      const settle = (copy: unknown, changed: boolean) => {
+        if (!changed) copies.set(value, value);
+        return changed ? copy : value;
+      };
+
+      if (Array.isArray(value)) {
+        const copy: unknown[] = [];
+        copies.set(value, copy);
+        value.forEach((item, i) => copy[i] = walk(item));
+        return settle(copy, copy.some((item, i) => item !== value[i]));
+      }
+
+      const proto = Object.getPrototypeOf(value);
+      if (proto !== Object.prototype && proto !== null) return value;
+
+      const copy: Record<string, unknown> = {};
+      const entries                       = Object.entries(value);
+      copies.set(value, copy);
+      for (const [ key, property ] of entries) copy[key] = walk(property, key);
+      return settle(copy, entries.some(([ key, property ]) => copy[key] !== property));
+    };
+
+    return walk(value) as T;
+  }
+
+  /**
+   * The compiled rules, with the caller-supplied rules and the vault path
+   * they were compiled from.
+   */
+  private cache?: { rules?: LogRedactRule[]; vaultPath?: string; compiled: ((text: string) => string)[] };
+
+  /**
+   * Returns the vault path, the built-in and the caller-supplied rules.
+   * They are compiled once and again only if the caller-supplied rules (by
+   * identity) or the vault path change.
+   */
+  private rules(): ((text: string) => string)[] {
+    const vaultPath = this.vaultPath();
+    const rules     = this.settings()?.rules;
+
+    const cache = this.cache;
+    if (cache && cache.rules === rules && cache.vaultPath === vaultPath) return cache.compiled;
+
+    const compiled = [ ...BUILTIN_RULES ];
+    if (vaultPath) {
+      const paths = [ ...new Set([ vaultPath, vaultPath.replace(/\\/g, "/") ]) ];
+      compiled.unshift((text) => paths.reduce((text, path) => text.split(path).join("<vault>"), text));
+    }
+    for (const rule of rules ?? []) {
+      const textRule = compileRule(rule);
+      if (textRule) compiled.push(textRule);
+    }
+
+    this.cache = { rules, vaultPath, compiled };
+    return compiled;
+  }
+}
+
+/**
+ * Redacts the values of `name=value` pairs whose name holds a secret (see
+ * {@link isSecretName}). The values of other pairs are scanned as well, e.g.
+ * the query of `url=https://example.com/?token=abc`.
+ */
+function redactPairs(text: string): string {
+  let redacted = "";
+  let last     = 0;
+
+  NAME_VALUE.lastIndex = 0;
+  for (let match = NAME_VALUE.exec(text); match; match = NAME_VALUE.exec(text)) {
+    const [ pair, name, separator ] = match;
+
+    if (isSecretName(name)) {
+      redacted += `${text.slice(last, match.index)}${name}${separator}${REDACTED}`;
+      last      = match.index + pair.length;
+    } else {
+      NAME_VALUE.lastIndex = match.index + name.length;
+    }
+  }
+  return redacted + text.slice(last);
+}
+
+/**
+ * Whether a name of a setting, field or property holds a secret: its last
+ * word is a secret word, or it is a bare `key`, or it ends in `key` preceded
+ * by `api`, `access`, `private` or `secret`. Names like `hotkey`, `monkey`,
+ * `primaryKey` or `tokens` do not hold secrets.
+ */
+function isSecretName(name: string): boolean {
+  const words = name.split(NAME_BOUNDARY).filter(Boolean).map((word) => word.toLowerCase());
+  const last  = words.at(-1) ?? "";
+
+  return SECRET_WORDS.has(last) || (last === "key" && (words.length === 1 || SECRET_KEY_WORDS.has(words.at(-2)!)));
+}
+
+/**
+ * Applies text rules in order. Failing caller-supplied rules are skipped.
+ */
+function applyRules(text: string, rules: ((text: string) => string)[]): string {
+  return rules.reduce((text, rule) => {
+    try {
+      const redacted = rule(text);
+      return typeof redacted === "string" ? redacted : text;
+    } catch {
+      return text;
+    }
+  }, text);
+}
+
+/**
+ * Compiles a {@link LogRedactRule} into a text rule, or returns `undefined`
+ * for invalid rules (e.g. a regular expression that was persisted as `{}`).
+ */
+function compileRule(rule: LogRedactRule): ((text: string) => string) | undefined {
+  if (typeof rule === "function") return rule;
+
+  let pattern: RegExp;
+  try {
+    if (typeof rule === "string" && rule) {
+      pattern = new RegExp(rule, "g");
+    } else if (rule instanceof RegExp) {
+      pattern = new RegExp(rule.source, rule.flags.includes("g") ? rule.flags : `${rule.flags}g`);
+    } else {
+      return undefined;
+    }
+  } catch {
+    return undefined;
+  }
+  return (text) => text.replace(pattern, REDACTED);
+}
+
+/**
+ * Whether a value is an error. A `DOMException` is not an `Error` in every
+ * environment, so it is checked separately.
+ */
+function isError(value: object): value is Error {
+  return value instanceof Error || (typeof DOMException === "function" && value instanceof DOMException);
+}
+
+/**
+ * Redacts the own properties of an error into a copy with the same
+ * prototype. The copy is a native error, so that `instanceof` checks and the
+ * console rendering (including the formatted stack) are kept.
+ *
+ * A `DOMException` keeps its name and code in internal slots, which are not
+ * available on a copy; it is rebuilt as plain `Error` holding its name,
+ * message and stack instead.
+ */
+function redactError(error: Error, walk: (value: unknown, name?: string) => unknown): Error {
+  if (typeof DOMException === "function" && error instanceof DOMException) {
+    const message = walk(error.message, "message") as string;
+    const stack   = walk(error.stack, "stack") as string | undefined;
+    if (message === error.message && stack === error.stack) return error;
+
+    const copy = new Error(message);
+    copy.name  = error.name;
+    copy.stack = stack;
+    return copy;
+  }
+
+  const properties = Object.getOwnPropertyNames(error).map((name) => {
+    const descriptor = Object.getOwnPropertyDescriptor(error, name)!;
+    return { name, descriptor, value: "value" in descriptor ? walk(descriptor.value, name) : undefined };
+  });
+  if (properties.every(({ descriptor, value }) => !("value" in descriptor) || value === descriptor.value)) return error;
+
+  // a real Error, so that consoles render it as one, with the error's prototype
+  const copy = Object.setPrototypeOf(new Error(), Object.getPrototypeOf(error)) as Error;
+  delete copy.stack;
+  for (const { name, descriptor, value } of properties) {
+    Object.defineProperty(copy, name, "value" in descriptor ? { ...descriptor, value } : descriptor);
+  }
+  return copy;
+}
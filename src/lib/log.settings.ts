@@ -0,0 +1,128 @@
+import { Setting            } from "obsidian";
+import { INFO,
+         LogLevels,
+         LogLevel,
+         LogSettings,
+         LogSettingsOptions } from "./types"
+import { isLogLevel         } from "./log.internal"
+import { Log                } from "./log"
+
+/**
+ * Display labels for the log level dropdown, in the order of {@link LogLevels}.
+ *
+ * @internal Test-only export
+ */
+export const LOG_LEVEL_LABELS: Record<LogLevel, string> = {
+  none:  "None",
+  error: "Error",
+  warn:  "Warning",
+  debug: "Debug",
+  log:   "Log",
+  info:  "Info",
+};
+
+/**
+ * Display labels for the notice level dropdown, in the order of
+ * {@link LogLevels}. Each label names the notices shown under that
+ * threshold (see {@link LogSettings.noticeLevel}).
+ *
+ * @internal Test-only export
+ */
+export const NOTICE_LEVEL_LABELS: Record<LogLevel, string> = {
+  none:  "None",
+  error: "Errors",
+  warn:  "Errors and warnings",
+  debug: "Errors, warnings and successes",
+  log:   "All except info",
+  info:  "All",
+};
+
+/**
+ * Persists the settings of `log` and invokes an optional callback.
+ * A rejection of either is logged via `log` instead of escaping the
+ * calling event handler (a dropdown's `onChange`, a modal's choice) as an
+ * unhandled rejection.
+ *
+ * @param log
+ *   The logger whose settings changed.
+ * @param level
+ *   The new level, passed to `callback`.
+ * @param callback
+ *   Optional callback from {@link LogSettingsOptions}.
+ * @returns
+ *   A promise that resolves once both have completed or failed.
+ *
+ * @internal
+ */
+export async function persist(log: Log, level: LogLevel, callback?: (level: LogLevel) => unknown): Promise<void> {
+  try {
+    await log.save();
+    await callback?.(level);
+  } catch (error) {
+    log.error(error, "Failed to save the log settings");
+  }
+}
+
+/**
+ * Renders the logger settings into a plugin's settings tab.
+ *
+ * Adds two `Setting`s to the given container:
+ * - a dropdown listing all {@link LogLevels} for the console log level;
+ *   selecting a level applies it immediately to the running logger (and all
+ *   its child loggers) via {@link Log.setLevel}, notifying its level listeners,
+ * - a dropdown for {@link LogSettings.noticeLevel}, limiting which notices
+ *   are shown; an omitted `noticeLevel` is displayed as "All".
+ *
+ * Each change is then persisted through the host plugin via {@link Log.save}
+ * (a no-op for loggers not attached via {@link Log.attach}), and the
+ * optional `onChange`/`onNoticeChange` callback is invoked. If saving or the
+ * callback fails, the error is logged via `log`.
+ *
+ * Invalid values are ignored.
+ *
+ * @param containerEl
+ *   The container to render into, typically `PluginSettingTab.containerEl`.
+ * @param log
+ *   The logger whose settings are edited.
+ * @param options
+ *   Optional {@link LogSettingsOptions} to customize texts and react to changes.
+ * @returns
+ *   The created `Setting`s, log level first, e.g. for further customization.
+ *
+ * @example
+ * class MySettingTab extends PluginSettingTab {
+ *   display() {
+ *     this.containerEl.empty();
+ *     addLogSettings(this.containerEl, this.plugin.log);
+ *   }
+ * }
+ */
+export function addLogSettings(containerEl: HTMLElement, log: Log, options: LogSettingsOptions = {}): Setting[] {
+  const level = new Setting(containerEl)
+    .setName(options.name ?? "Log level")
+    .setDesc(options.desc ?? "Controls which messages are written to the developer console.")
+    .addDropdown((dropdown) => dropdown
+      .addOptions(LOG_LEVEL_LABELS)
+      .setValue(log.getLevel())
+      .onChange(async (value) => {
+        if (!isLogLevel(value) || !log.setLevel(value)) return;
+
+        await persist(log, value, options.onChange);
+      }));
+
+  const notice = new Setting(containerEl)
+    .setName(options.noticeName ?? "Notice level")
+    .setDesc(options.noticeDesc ?? "Controls which notices pop up. Hidden notices are still logged.")
+    .addDropdown((dropdown) => dropdown
+      .addOptions(NOTICE_LEVEL_LABELS)
+      .setValue(log.getSettings().noticeLevel ?? INFO)
+      .onChange(async (value) => {
+        const settings = log.getSettings();
+        if (!isLogLevel(value) || value === (settings.noticeLevel ?? INFO)) return;
+
+        settings.noticeLevel = value;
+        await persist(log, value, options.onNoticeChange);
+      }));
+
+  return [ level, notice ];
+}
@@ -1,18 +1,59 @@
 import { Notice             } from "obsidian";
+import type { Plugin,
+              WorkspaceLeaf } from "obsidian";
 import { DEBUG, 
          ERROR, 
          INFO,
          LOG,
+         NONE,
          SUCCESS,
          WARN,
          ExclusiveLogLevel,
+         LogAttachOptions,
+         LogElevateOptions,
+         LogFields,
+         LogHost,
          LogLevel,
+         LogLevelListener,
+         LogNoticeAction,
+         LogNoticeOptions,
+         LogMessageThunk,
+         LogNotification,
+         LogProgress,
+         LogRecord,
+         LogRecordFilter,
          LogSettings,
+         LogTimingOptions,
+         LogTransport,
          NoticeLevel        } from "./types"
-import { isEnabled,
+import { LogBuffer          } from "./log.buffer"
+import { DEFAULT_NOTICE_MS,
+         LogNotices,
+         LogNoticeDisplay   } from "./log.notices"
+import { LogRedactor        } from "./log.redact"
+import { createLogRecord,
+         evaluateLogThunk,
+         extractSettings,
+         formatErrorDetails,
+         formatFields,
+         formatPrefix,
+         isLogLevel,
+         isLogThunk,
+         isRecord,
+         isSameSettings,
+         isEnabled,
+         isNoticeEnabled,
+         isLevelLike,
+         isNoticeLevel,
          getLogLevel,
+         getNoticeClass,
+         mostVerbose,
+         normalizeError,
+         resolveLevel,
+         resolveNoticeOptions,
          resolvePluginName,
          resolveSettings,
+         resolveTimingOptions,
          showDebugWarning   } from "./log.internal"
 
 /**
@@ -36,6 +77,43 @@ const CONSOLE_FN: Record<ExclusiveLogLevel, (...args: unknown[]) => void> = {
   info: console.info,
 };
 
+/**
+ * The console methods opening and closing console groups, see {@link Log.group}.
+ */
+const CONSOLE_GROUP_FN = {
+  group: console.group,
+  groupCollapsed: console.groupCollapsed,
+  groupEnd: console.groupEnd,
+};
+
+/**
+ * Warning logged when {@link Log.init} is called again for a registered
+ * plugin with settings that differ from the registered ones.
+ */
+const INIT_CONFLICT_WARNING = "Log.init() called again with different settings; they are ignored. Use Log.reinit() to apply them." as const;
+
+/**
+ * Warning logged when {@link Log.notice} is called with a string that looks
+ * like a level but is none (e.g. `"Warn"`); the notice is shown as `"info"`.
+ */
+const INVALID_NOTICE_LEVEL_WARNING = "notice() called with an invalid level; showing an info notice instead:" as const;
+
+/**
+ * Default property of the plugin data under which {@link Log.attach}
+ * persists the logger settings.
+ */
+const DEFAULT_SETTINGS_KEY = "log" as const;
+
+/**
+ * Default duration of a temporary log level elevation (15 minutes).
+ */
+const DEFAULT_ELEVATION_MS = 15 * 60 * 1000;
+
+/**
+ * Number of notifications kept in the history (see {@link Log.getNotifications}).
+ */
+const NOTIFICATION_HISTORY_SIZE = 100;
+
 /**
  * Logger class providing structured, level-based logging for plugins or applications.
  *
@@ -49,10 +127,8 @@ const CONSOLE_FN: Record<ExclusiveLogLevel, (...args: unknown[]) => void> = {
  * - Conditional logging based on configured level
  * - Convenience methods for all standard console methods
  * - Optional integration with UI notices (e.g., Obsidian)
- *
- * @future
- * This class may be extended in the future to support logging to files,
- * allowing log persistence beyond console output.
+ * - Pluggable transports with individual level thresholds
+ *   (see {@link Log.addTransport})
  *
  * Usage:
  * ```ts
@@ -63,18 +139,15 @@ const CONSOLE_FN: Record<ExclusiveLogLevel, (...args: unknown[]) => void> = {
  */
 export class Log {
   /**
-   * Holds the single instance of the {@link Log} class.
+   * Registry of all root loggers, keyed by plugin name.
    *
-   * This implements the singleton pattern: only the first call to {@link Log.init}
-   * creates the instance. Subsequent calls return this same object.
+   * Each plugin gets exactly one root logger. Entries are added by
+   * {@link Log.init} and removed by {@link Log.dispose} or {@link Log.reset}.
    *
-   * ⚠️ Important:
-   * - The `pluginname` and initial `settings` are set **only once**.
-   * - Mutations to `settings` during runtime (e.g., via Obsidian plugin settings)
-   *   are still reflected in the singleton instance.
-   * - This field is private and should **never be accessed directly**.
+   * A `Map` keeps insertion order, so the first entry is the logger that
+   * was registered first (see {@link Log.get}).
    */
-  private static singleton: Log;
+  private static readonly registry = new Map<string, Log>();
 
   /**
    * Tracks whether the initial debug warning has been displayed.
@@ -87,78 +160,851 @@ export class Log {
   private static debugWarningShown = false;
   
   /**
-   * Creates or returns the singleton {@link Log} instance.
+   * Creates or returns the root {@link Log} instance of a plugin.
    *
-   * This method implements the singleton pattern:
-   * - The **first call** to `init()` creates a new `Log` instance using
+   * Loggers are kept in a registry keyed by plugin name:
+   * - The **first call** for a plugin name creates a new `Log` instance using
    *   the provided `pluginname` and `settings`.
-   * - **Subsequent calls** return the existing instance; new values for
-   *   `pluginname` or `settings` are ignored, though the internal
-   *   `loglevel` of the `settings` object may still change at runtime.
+   * - **Subsequent calls** for the same plugin name return the existing
+   *   instance. If they pass settings that differ from the registered ones,
+   *   a warning is logged and the new settings are ignored; use
+   *   {@link Log.reinit} to apply them.
+   * - A call **without** `pluginname` returns the logger of the resolved
+   *   default name (see {@link resolvePluginName}) or, if that is not
+   *   registered, the logger that was registered first.
    *
    * NOTE:
    * - The `settings` object serves as a vehicle for the desired initial
-   *   log level. While `settings` cannot be replaced after initialization,
-   *   its `loglevel` property may be mutated during runtime via Obsidian
-   *   plugin settings.
-   * - The `pluginname` is only applied once and prefixed to all log messages.
+   *   log level. Its `loglevel` property may be mutated during runtime
+   *   via Obsidian plugin settings.
+   * - The `pluginname` is prefixed to all log messages.
    *
    * @param pluginname
    *   A short identifier for the plugin or module using the logger.
-   *   Only the first value provided is applied.
    * @param settings
    *   Optional configuration object controlling the logger behavior.
    *   If omitted or invalid, defaults to `{ loglevel: "info" }`.
    * @returns
-   *   The singleton {@link Log} instance. Always returns the same object.
+   *   The root {@link Log} instance of the plugin.
    *
    * @example
    * const logger1 = Log.init("MyPlugin", { loglevel: "debug" });
-   * const logger2 = Log.init("OtherPlugin", { loglevel: "error" });
+   * const logger2 = Log.init("MyPlugin");
+   * const logger3 = Log.init("OtherPlugin", { loglevel: "error" });
    * console.assert(logger1 === logger2); // ✅ true
+   * console.assert(logger1 !== logger3); // ✅ true
+   */
+  public static init(pluginname?: string, settings?: LogSettings): Log {
+    const existing = Log.registry.get(resolvePluginName(pluginname)) ??
+                     (pluginname === undefined ? Log.get() : undefined);
+
+    if (existing) {
+      if (settings && !isSameSettings(settings, existing.settings)) {
+        CONSOLE_FN[WARN](existing.pluginname, INIT_CONFLICT_WARNING);
+      }
+      return existing;
+    }
+
+    const log = new Log(resolvePluginName(pluginname), resolveSettings(settings));
+    Log.registry.set(log.pluginname, log);
+    return log;
+  }
+
+  /**
+   * Re-initializes the root {@link Log} instance of a plugin with new settings.
+   *
+   * If a logger is registered for the plugin name, its settings are replaced
+   * and the **same instance** is returned, so references held elsewhere
+   * (including child loggers) stay valid and immediately use the new settings.
+   * Registered transports and level listeners are kept; the latter are
+   * notified if the log level changes. If no logger is registered, this
+   * behaves like {@link Log.init}.
+   *
+   * Typical use is plugin hot-reload or tests, where stale settings from a
+   * previous initialization must not survive.
+   *
+   * @param pluginname
+   *   A short identifier for the plugin or module using the logger.
+   * @param settings
+   *   Optional configuration object controlling the logger behavior.
+   *   If omitted or invalid, defaults to `{ loglevel: "info" }`.
+   * @returns
+   *   The root {@link Log} instance of the plugin.
+   *
+   * @example
+   * const logger = Log.reinit("MyPlugin", { loglevel: "debug" });
+   */
+  public static reinit(pluginname?: string, settings?: LogSettings): Log {
+    const existing = Log.registry.get(resolvePluginName(pluginname));
+    if (!existing) return Log.init(pluginname, settings);
+
+    const previous = existing.settings.loglevel;
+    existing.settings = resolveSettings(settings);
+    existing.notifyLevelChange(previous);
+    return existing;
+  }
+
+  /**
+   * Returns a registered root {@link Log} instance without creating one.
+   *
+   * @param pluginname
+   *   The plugin name to look up. If omitted, the logger that was registered
+   *   first is returned.
+   * @returns
+   *   The registered logger, or `undefined` if there is none.
+   *
+   * @example
+   * Log.get("MyPlugin")?.info("Still there");
+   */
+  public static get(pluginname?: string): Log | undefined {
+    if (pluginname !== undefined) return Log.registry.get(pluginname);
+    else return Log.registry.values().next().value;
+  }
+
+  /**
+   * Disposes all registered loggers and clears the registry.
+   *
+   * Afterwards, {@link Log.init} creates fresh instances and the one-time
+   * debug warning state is back to its initial value. Intended for tests
+   * and full teardown.
+   *
+   * @example
+   * afterEach(() => Log.reset());
    */
-  public static init(pluginname?: string, settings?: LogSettings) {
-    if (! Log.singleton) {
-      Log.singleton = new Log(resolvePluginName(pluginname), 
-                              resolveSettings(settings));
+  public static reset() {
+    for (const log of [ ...Log.registry.values() ]) {
+      log.dispose();
     }
-    return Log.singleton;
+    Log.debugWarningShown = false;
+  }
+
+  /**
+   * Attaches the root logger of an Obsidian plugin to the plugin's lifecycle.
+   *
+   * This method:
+   * 1. Uses `plugin.manifest.id` as plugin name.
+   * 2. Loads the persisted {@link LogSettings} from the plugin data
+   *    (`data[options.key]`, see {@link LogAttachOptions}), falling back to
+   *    `options.defaults`. If `options.data` is given, it is used instead of
+   *    `plugin.loadData()`, and the live settings are stored in it.
+   * 3. Applies them via {@link Log.reinit}, so a logger that survived a
+   *    hot-reload does not keep stale settings.
+   * 4. Registers {@link Log.dispose} via `plugin.register()`, releasing all
+   *    transports when the plugin unloads.
+   *
+   * Use {@link Log.save} to persist changed settings.
+   *
+   * @param plugin
+   *   The host plugin.
+   * @param options
+   *   Optional {@link LogAttachOptions}.
+   * @returns
+   *   A promise resolving to the root {@link Log} instance of the plugin.
+   *
+   * @example
+   * async onload() {
+   *   this.log = await Log.attach(this);
+   * }
+   */
+  public static async attach(plugin: Plugin, options: LogAttachOptions = {}): Promise<Log> {
+    const key      = options.key ?? DEFAULT_SETTINGS_KEY;
+    const data     = options.data ?? await plugin.loadData();
+    const settings = extractSettings(data, key, options.defaults);
+    const log      = Log.reinit(plugin.manifest.id, settings);
+
+    if (options.data) options.data[key] = log.settings;
+    log.host = { plugin, key, data: options.data, persist: options.persist };
+    plugin.register(() => {
+      // a newer plugin instance may have re-attached the logger already
+      if (log.host?.plugin === plugin) log.dispose();
+    });
+
+    log.event(DEBUG, "Logger attached", { version: plugin.manifest.version });
+    return log;
   }
 
   /**
    * Private constructor for the {@link Log} class.
    *
    * Instances should be created via {@link Log.init} to ensure proper
-   * runtime validation of settings.
+   * runtime validation of settings, or via {@link Log.child} for
+   * namespaced loggers.
    * 
    * NOTE:
    * The provided `settings` object is a vehicle for the desired
-   * type of logging. While settings cannot be "re-set", the internal
-   * value of loglevel may be changed by Obsidian/Plugin settings
+   * type of logging. The internal value of loglevel may be changed 
+   * by Obsidian/Plugin settings, and the object may be replaced by
+   * {@link Log.reinit}.
    * DO NOT clone or freeze settings! Use them as provided.
    *
    * @param pluginname
    *   The name of the plugin or module, used as a prefix for all log messages.
    * @param settings
    *   The validated {@link LogSettings} object controlling log behavior.
+   *   Child loggers always read the settings of their root logger, so that
+   *   {@link Log.reinit} affects them as well.
+   * @param namespace
+   *   Optional namespace of a child logger (e.g. `"sync:remote"`).
+   * @param parent
+   *   The logger a child logger was derived from. Child loggers share
+   *   settings and transports with their root logger.
    *
    * @remarks
    * The constructor is private to enforce the use of the static `init`
    * method for proper initialization and validation.
    */  
-  private constructor(private readonly pluginname: string, private readonly settings: LogSettings) { }
+  private constructor(private readonly pluginname: string, 
+                      private          settings:   LogSettings,
+                      private readonly namespace?: string,
+                      parent?: Log) {
+    this.root   = parent ? parent.root : this;
+    this.prefix = formatPrefix(pluginname, namespace);
+    if (!parent) this.transports.add(this.buffer);
+  }
+
+  /**
+   * The root logger of this logger, i.e. the logger created by {@link Log.init}.
+   * For a root logger, this is the logger itself.
+   */
+  private readonly root: Log;
+
+  /**
+   * The host plugin of an attached root logger (see {@link Log.attach}).
+   * `undefined` for loggers that are not attached.
+   */
+  private host?: LogHost;
+
+  /**
+   * Opens the log viewer of the root logger, offered as "Open log" button
+   * on error and warning notices (see {@link Log.setViewer}).
+   */
+  private viewer?: () => unknown;
+
+  /**
+   * Returns the live settings object of this logger.
+   *
+   * The returned object is the one the logger reads on every call, not a
+   * copy: mutating it (e.g. from a settings tab) immediately changes the
+   * logging behavior of the root logger and all its child loggers.
+   *
+   * @returns
+   *   The live {@link LogSettings} of the root logger.
+   *
+   * @example
+   * logger.getSettings().loglevel = "debug";
+   */
+  public getSettings(): LogSettings {
+    return this.root.settings;
+  }
+
+  /**
+   * Redacts a value like everything this logger outputs, using the rules of
+   * {@link LogSettings.redact}. Strings are redacted, arrays, plain objects
+   * and errors are copied with redacted contents; values without secrets are
+   * returned unchanged.
+   *
+   * Meant for output that bypasses the logger, e.g. the failures a
+   * transport reports to the console (see {@link LogFileOptions.redact}).
+   *
+   * @param value
+   *   The value to redact.
+   * @returns
+   *   The redacted value.
+   *
+   * @example
+   * log.addTransport(new LogFileTransport(this, { redact: (value) => log.redact(value) }));
+   */
+  public redact<T>(value: T): T {
+    return this.root.redactor.value(value);
+  }
+
+  /**
+   * Returns the plugin name of the logger, as used in the console prefix.
+   * Child loggers return the plugin name of their root logger.
+   *
+   * @returns
+   *   The plugin name.
+   *
+   * @example
+   * logger.child("sync").getName(); // "my-plugin"
+   */
+  public getName(): string {
+    return this.pluginname;
+  }
+
+  /**
+   * Returns the configured log level of the plugin.
+   *
+   * This is the global {@link LogSettings.loglevel}. Neither namespace rules
+   * nor a temporary elevation (see {@link Log.isElevated}) are reflected.
+   *
+   * @returns
+   *   The configured log level.
+   *
+   * @example
+   * logger.getLevel(); // "info"
+   */
+  public getLevel(): LogLevel {
+    return this.root.settings.loglevel;
+  }
+
+  /**
+   * Changes the configured log level of the plugin at runtime.
+   *
+   * The level is validated via {@link isLogLevel}; invalid values are
+   * rejected. A valid level is written to the live settings object (so it
+   * is persisted by {@link Log.save}) and all listeners registered via
+   * {@link Log.onLevelChange} are notified, if the level actually changed.
+   *
+   * @param level
+   *   The new log level.
+   * @returns
+   *   `true` if the level is valid and has been applied, `false` otherwise.
+   *
+   * @example
+   * logger.setLevel("debug");   // true
+   * logger.setLevel("verbose"); // false, level unchanged
+   */
+  public setLevel(level: LogLevel): boolean {
+    if (!isLogLevel(level)) return false;
+
+    const root     = this.root;
+    const previous = root.settings.loglevel;
+    root.settings.loglevel = level;
+    root.notifyLevelChange(previous);
+    return true;
+  }
+
+  /**
+   * Determines whether messages of a level are output by this logger, i.e.
+   * written to the console or accepted by at least one transport (including
+   * the buffer of recent records).
+   *
+   * Namespace rules and a temporary elevation are taken into account. Use it
+   * to guard whole blocks that only prepare log output; single messages can
+   * be passed as {@link LogMessageThunk} instead.
+   *
+   * @param level
+   *   The level of the messages.
+   * @returns
+   *   `true` if messages of the level are output, `false` otherwise.
+   *
+   * @example
+   * if (logger.isLevelEnabled("debug")) {
+   *   const stats = collectStats(vault);
+   *   logger.debug("Vault stats:", stats);
+   * }
+   */
+  public isLevelEnabled(level: ExclusiveLogLevel): boolean {
+    if (!isLogLevel(level) || (level as LogLevel) === NONE) return false;
+
+    const setlvl = this.effectiveLevel();
+    if (isEnabled(level, setlvl)) return true;
+    for (const transport of this.root.transports) {
+      if (isEnabled(level, transport.level ?? setlvl)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Listeners registered via {@link Log.onLevelChange}. Only the set of the
+   * root logger is used.
+   */
+  private readonly levelListeners = new Set<LogLevelListener>();
+
+  /**
+   * Registers a callback invoked whenever the configured log level changes
+   * via {@link Log.setLevel} or {@link Log.reinit}.
+   *
+   * Direct mutations of the settings object cannot be observed and do not
+   * trigger the callback. Exceptions thrown by a callback are reported to
+   * the console and do not affect other callbacks.
+   *
+   * @param listener
+   *   The callback, receiving the new and the previous level.
+   * @returns
+   *   A function that unregisters the callback again.
+   *
+   * @example
+   * const off = logger.onLevelChange((level, previous) => {
+   *   statusEl.setText(`log: ${level}`);
+   * });
+   */
+  public onLevelChange(listener: LogLevelListener): () => void {
+    const root = this.root;
+
+    root.levelListeners.add(listener);
+    return () => { root.levelListeners.delete(listener); };
+  }
+
+  /**
+   * Notifies all level listeners if the configured level differs from
+   * the given previous level.
+   *
+   * @param previous
+   *   The log level configured before the change.
+   */
+  private notifyLevelChange(previous: LogLevel) {
+    const level = this.settings.loglevel;
+    if (level === previous) return;
+
+    for (const listener of [ ...this.levelListeners ]) {
+      try {
+        listener(level, previous);
+      } catch (e) {
+        CONSOLE_FN[ERROR](this.prefix, "Log level listener failed:", this.root.redactor.value(e));
+      }
+    }
+  }
+
+  /**
+   * The active temporary level elevation of a root logger, if any
+   * (see {@link Log.elevate}).
+   */
+  private elevation?: { level: LogLevel, timer?: ReturnType<typeof setTimeout> };
+
+  /**
+   * Temporarily raises the effective log level, e.g. for a debug session.
+   *
+   * While elevated, every logger of the plugin (including child loggers and
+   * transports without own level) uses the more verbose of its regular level
+   * and the elevated level. The configured settings are **not** modified, so
+   * {@link Log.save} never persists the elevated level.
+   *
+   * The start and the end of the session are logged at the elevated level.
+   * The elevation is reverted automatically after `durationMs`, by
+   * {@link Log.restore}, or when the logger is disposed. A `durationMs` of
+   * `Infinity` keeps the elevation until it is restored or disposed.
+   * Calling `elevate()` again replaces the running session.
+   *
+   * Invalid levels and `"none"` are ignored.
+   *
+   * @param level
+   *   The level to elevate to.
+   * @param options
+   *   Optional {@link LogElevateOptions}.
+   *
+   * @example
+   * logger.elevate("debug", { durationMs: 5 * 60 * 1000 });
+   * // ... reproduce the problem ...
+   * logger.restore();
+   */
+  public elevate(level: LogLevel, options: LogElevateOptions = {}) {
+    if (!isLogLevel(level) || level === NONE) return;
+
+    const root       = this.root;
+    const durationMs = options.durationMs ?? DEFAULT_ELEVATION_MS;
+
+    if (root.elevation) clearTimeout(root.elevation.timer);
+    root.elevation = {
+      level,
+      timer: Number.isFinite(durationMs) ? setTimeout(() => root.restore(), durationMs) : undefined,
+    };
+
+    root.event(level, "Log level elevated", { level, durationMs });
+  }
+
+  /**
+   * Ends a temporary log level elevation started by {@link Log.elevate}.
+   *
+   * The end of the session is logged at the elevated level before the
+   * regular level is restored. Without an active elevation, this method
+   * does nothing.
+   *
+   * @example
+   * logger.restore();
+   */
+  public restore() {
+    const root      = this.root;
+    const elevation = root.elevation;
+    if (!elevation) return;
+
+    clearTimeout(elevation.timer);
+    root.event(elevation.level as ExclusiveLogLevel, "Log level restored", { level: root.settings.loglevel });
+    root.elevation = undefined;
+  }
+
+  /**
+   * Checks whether the log level is temporarily elevated (see {@link Log.elevate}).
+   *
+   * @returns
+   *   `true` during an elevation, `false` otherwise.
+   */
+  public isElevated(): boolean {
+    return this.root.elevation !== undefined;
+  }
+
+  /**
+   * Persists the current settings through the host plugin.
+   *
+   * The settings are written to `data[key]` of the plugin data, preserving
+   * all other properties. If the plugin shares its settings object with the
+   * logger (`data`, see {@link LogAttachOptions}), that object is saved as a
+   * whole, via `persist` if given. Otherwise the stored data is re-read and
+   * only `data[key]` is replaced. For loggers that are not attached to a
+   * plugin (see {@link Log.attach}), this method does nothing.
+   *
+   * @returns
+   *   A promise that resolves once the data has been written.
+   *
+   * @example
+   * settings.loglevel = "debug";
+   * await logger.save();
+   */
+  public async save(): Promise<void> {
+    const host = this.root.host;
+    if (!host) return;
+
+    // Log.reinit() may have replaced the settings object since attach()
+    if (host.data) host.data[host.key] = this.root.settings;
+
+    if (host.persist) {
+      await host.persist();
+    } else if (host.data) {
+      await host.plugin.saveData(host.data);
+    } else {
+      const data = await host.plugin.loadData();
+      await host.plugin.saveData({ ...(isRecord(data) ? data : {}), [host.key]: this.root.settings });
+    }
+  }
+
+  /**
+   * Disposes the root logger of the calling logger.
+   *
+   * All registered transports are removed and their `dispose()` hooks are
+   * invoked. Exceptions thrown by a hook are reported to the console.
+   * A running level elevation is cancelled silently and all level
+   * listeners are removed.
+   * The logger is removed from the registry, so the next {@link Log.init}
+   * for the same plugin name creates a fresh instance, and it is detached
+   * from its host plugin.
+   *
+   * The disposed instance remains usable for console output, which allows
+   * late log calls during plugin unload to succeed.
+   *
+   * @example
+   * onunload() {
+   *   this.log.dispose();
+   * }
+   */
+  public dispose() {
+    const root = this.root;
+
+    for (const transport of [ ...root.transports ]) {
+      root.transports.delete(transport);
+      try {
+        transport.dispose?.();
+      } catch (e) {
+        CONSOLE_FN[ERROR](root.prefix, "Log transport failed to dispose:", root.redactor.value(e));
+      }
+    }
+
+    if (root.elevation) {
+      clearTimeout(root.elevation.timer);
+      root.elevation = undefined;
+    }
+
+    root.levelListeners.clear();
+    root.host = undefined;
+    if (Log.registry.get(root.pluginname) === root) {
+      Log.registry.delete(root.pluginname);
+    }
+  }
+
+  /**
+   * The prefix of all console output, i.e. the plugin name followed by
+   * the namespace of a child logger (e.g. `"my-plugin:sync"`).
+   */
+  private readonly prefix: string;
+
+  /**
+   * Transports receiving log records in addition to the console output.
+   *
+   * A `Set` is used to keep registration order while preventing the same
+   * transport from being registered twice. Only the set of the root logger
+   * is used; child loggers access it via {@link Log.root}.
+   */
+  private readonly transports = new Set<LogTransport>();
+
+  /**
+   * The buffer of recent records (see {@link Log.getRecent}). Only the buffer
+   * of the root logger is registered as transport and used.
+   */
+  private readonly buffer = new LogBuffer(() => this.settings.buffer);
+
+  /**
+   * Deduplication and flood control of notices (see {@link LogNoticeLimits}).
+   * Only the instance of the root logger is used, so the limits apply to all
+   * notices of the plugin.
+   */
+  private readonly notices = new LogNotices(() => this.settings.noticeLimits);
+
+  /**
+   * Redaction of secrets and paths before any output (see {@link LogRedactSettings}).
+   * Only the instance of the root logger is used. The vault base path is
+   * taken from the adapter of an attached plugin's vault, if it has one.
+   */
+  private readonly redactor = new LogRedactor(() => this.settings.redact, () => {
+    const adapter = this.host?.plugin.app?.vault?.adapter as { getBasePath?: () => string } | undefined;
+    return typeof adapter?.getBasePath === "function" ? adapter.getBasePath() : undefined;
+  });
+
+  /**
+   * Sets the function opening the log viewer of the plugin. While set,
+   * error and warning notices offer an "Open log" button.
+   * {@link registerLogView} sets the viewer automatically.
+   *
+   * @param open
+   *   Opens the log viewer.
+   * @returns
+   *   A function removing the viewer again, unless it was replaced since.
+   *
+   * @example
+   * plugin.register(log.setViewer(() => openMyLogView()));
+   */
+  public setViewer(open: () => unknown): () => void {
+    const root = this.root;
+
+    root.viewer = open;
+    return () => {
+      if (root.viewer === open) root.viewer = undefined;
+    };
+  }
+
+  /**
+   * Returns recent log records from the in-memory buffer, oldest first.
+   *
+   * The buffer keeps the most recent records of the plugin (all namespaces),
+   * bounded by {@link LogBufferSettings.size}. Depending on
+   * {@link LogBufferSettings.level}, it may contain records below the
+   * console threshold.
+   *
+   * @param filter
+   *   Optional {@link LogRecordFilter}.
+   * @returns
+   *   A new array of matching records.
+   *
+   * @example
+   * const problems = logger.getRecent({ level: "warn", limit: 20 });
+   */
+  public getRecent(filter?: LogRecordFilter): LogRecord[] {
+    return this.root.buffer.getRecent(filter);
+  }
+
+  /**
+   * Removes all records from the in-memory buffer.
+   *
+   * @example
+   * logger.clear();
+   */
+  public clear() {
+    this.root.buffer.clear();
+  }
+
+  /**
+   * The history of notices shown to the user, oldest first. Only the
+   * history of the root logger is used.
+   */
+  private readonly notifications: LogNotification[] = [];
+
+  /**
+   * Returns the notices recently shown to the user, oldest first.
+   *
+   * Every notice passing the `silent` option and the
+   * {@link LogSettings.noticeLevel} threshold is recorded, including
+   * notices coalesced or suppressed by {@link LogNoticeLimits} and the
+   * outcome of {@link Log.progress}. The history keeps the last 100
+   * notifications of the plugin (all namespaces) in memory.
+   *
+   * @returns
+   *   A new array of notifications.
+   *
+   * @example
+   * const errors = logger.getNotifications().filter((n) => n.level === "error");
+   */
+  public getNotifications(): LogNotification[] {
+    return [ ...this.root.notifications ];
+  }
+
+  /**
+   * Removes all notifications from the history.
+   *
+   * @example
+   * logger.clearNotifications();
+   */
+  public clearNotifications() {
+    this.root.notifications.length = 0;
+  }
+
+  /**
+   * Replays buffered records to the console.
+   *
+   * Every record is written with its original prefix and level, preceded by
+   * its original timestamp in ISO 8601 format. The current log level is
+   * **not** applied, so records captured below the console threshold become
+   * visible. Replayed output is not captured again.
+   *
+   * @param filter
+   *   Optional {@link LogRecordFilter} selecting the records to replay.
+   *
+   * @example
+   * logger.dump({ since: Date.now() - 60_000 });
+   * // console.debug("MyPlugin:sync", "2026-01-01T12:00:00.000Z", "Connecting", "remote=origin")
+   */
+  public dump(filter?: LogRecordFilter) {
+    for (const record of this.getRecent(filter)) {
+      const prefix   = formatPrefix(record.pluginname, record.namespace);
+      const time     = new Date(record.timestamp).toISOString();
+      const rendered = record.fields ? formatFields(record.fields) : "";
+
+      if (rendered) {
+        CONSOLE_FN[record.level](prefix, time, ...record.args, rendered);
+      } else {
+        CONSOLE_FN[record.level](prefix, time, ...record.args);
+      }
+    }
+  }
+
+  /**
+   * Child loggers created via {@link Log.child} on this logger or any of its
+   * descendants, keyed by their fully qualified namespace. Only the map of
+   * the root logger is used, so that `child("a:b")` and
+   * `child("a").child("b")` share one instance.
+   */
+  private readonly children = new Map<string, Log>();
+
+  /**
+   * Returns a child logger for the given namespace.
+   *
+   * A child logger exposes the same methods as its parent. Its console
+   * output is prefixed with `<pluginname>:<namespace>` and every record it
+   * produces carries the namespace in {@link LogRecord.namespace}.
+   * Settings and transports are shared with the parent, so changing the
+   * log level or adding a transport on any logger affects all of them.
+   *
+   * Child loggers can be nested; namespaces are joined with `:`.
+   * Repeated calls with the same namespace return the same instance, also
+   * across nesting: `child("a:b")` equals `child("a").child("b")`.
+   *
+   * @param namespace
+   *   The namespace relative to this logger, e.g. `"sync"` or `"sync:remote"`.
+   *   Leading and trailing `:` are ignored. An empty namespace returns
+   *   this logger.
+   * @returns
+   *   The child {@link Log} instance.
+   *
+   * @example
+   * const sync   = logger.child("sync");
+   * const remote = sync.child("remote");
+   * remote.info("Connected"); // console.info("MyPlugin:sync:remote", "Connected")
+   */
+  public child(namespace: string): Log {
+    const relative = namespace.trim().replace(/^:+|:+$/g, "");
+    if (!relative) return this;
+
+    const qualified = this.namespace ? `${this.namespace}:${relative}` : relative;
+    const children  = this.root.children;
+
+    let child = children.get(qualified);
+    if (!child) {
+      child = new Log(this.pluginname, this.root.settings, qualified, this);
+      children.set(qualified, child);
+    }
+    return child;
+  }
+
+  /**
+   * Registers a {@link LogTransport} that receives log records in addition
+   * to the console output.
+   *
+   * The transport's own {@link LogTransport.level} is evaluated independently
+   * of the console's {@link LogSettings.loglevel}. A transport without a level
+   * follows the logger's current `loglevel`.
+   *
+   * Registering the same transport twice has no effect.
+   *
+   * @param transport
+   *   The transport to register.
+   * @returns
+   *   A function that removes the transport again. Calling it is equivalent
+   *   to calling {@link Log.removeTransport}.
+   *
+   * @example
+   * const remove = logger.addTransport({
+   *   level: "debug",
+   *   write: (record) => captured.push(record)
+   * });
+   * // ...
+   * remove();
+   */
+  public addTransport(transport: LogTransport): () => void {
+    this.root.transports.add(transport);
+    return () => { this.removeTransport(transport); };
+  }
+
+  /**
+   * Removes a previously registered {@link LogTransport}.
+   *
+   * The transport's `dispose()` hook is **not** invoked; the caller that
+   * registered the transport remains responsible for releasing it.
+   *
+   * @param transport
+   *   The transport to remove.
+   * @returns
+   *   `true` if the transport was registered, `false` otherwise.
+   */
+  public removeTransport(transport: LogTransport): boolean {
+    return this.root.transports.delete(transport);
+  }
+
+  /**
+   * Hands a log record to all transports whose threshold allows the message.
+   *
+   * The record is created lazily, i.e. only if at least one transport accepts
+   * the message. Exceptions thrown by a transport are reported to the console
+   * and do not affect other transports or the caller.
+   *
+   * @param msglvl
+   *   The log level of the message.
+   * @param setlvl
+   *   The effective level of this logger, used for transports without
+   *   a level of their own.
+   * @param args
+   *   The message arguments, without the plugin name prefix.
+   * @param fields
+   *   Optional structured metadata of the message.
+   */
+  private dispatch(msglvl: ExclusiveLogLevel, setlvl: LogLevel, args: unknown[], fields?: LogFields) {
+    let record: LogRecord | undefined;
+
+    for (const transport of this.root.transports) {
+      if (!isEnabled(msglvl, transport.level ?? setlvl)) continue;
+
+      record ??= createLogRecord(msglvl, this.pluginname, this.namespace, args, fields);
+      try {
+        transport.write(record);
+      } catch (e) {
+        CONSOLE_FN[ERROR](this.prefix, "Log transport failed:", this.root.redactor.value(e));
+      }
+    }
+  }
 
   /**
    * Internal helper method that logs a message to the console if its level
-   * is enabled according to the current {@link LogSettings.loglevel}.
+   * is enabled according to the current {@link LogSettings.loglevel} (or the
+   * matching {@link LogSettings.namespaces} rule of a child logger), and
+   * forwards it to all registered transports whose threshold allows it.
    *
    * This method handles the core logic for level-based logging and
-   * automatically prefixes messages with the plugin name.
+   * automatically prefixes console messages with the plugin name
+   * (and the namespace of a child logger).
    *
    * @param msglvl
    *   The log level of the message. "none" is excluded since it disables logging.
    * @param args
-   *   The message arguments to pass to the console method.
+   *   The message arguments to pass to the console method, or a single
+   *   {@link LogMessageThunk} evaluated only if the level is enabled
+   *   (see {@link Log.isLevelEnabled}).
    *
    * @remarks
    * This method should only be called internally by the public logging
@@ -172,14 +1018,70 @@ export class Log {
     msglvl: ExclusiveLogLevel,
     ...args: unknown[]
   ) {
-    if (!isEnabled(msglvl, this.settings.loglevel)) {
-      return;
+    if (isLogThunk(args)) {
+      if (!this.isLevelEnabled(msglvl)) return;
+      args = evaluateLogThunk(args[0]);
     }
+    this.emit(msglvl, args);
+  }
 
-    // One-time warning before the very first debug output
-    Log.debugWarningShown = showDebugWarning(Log.debugWarningShown, msglvl, this.pluginname);
+  /**
+   * Resolves the level currently in effect for this logger.
+   *
+   * This is the global or namespace level (see {@link resolveLevel}),
+   * raised to the elevated level during a {@link Log.elevate} session.
+   *
+   * @returns
+   *   The effective log level.
+   */
+  private effectiveLevel(): LogLevel {
+    const level     = resolveLevel(this.root.settings, this.namespace);
+    const elevation = this.root.elevation;
 
-    CONSOLE_FN[msglvl](this.pluginname, ...args);
+    return elevation ? mostVerbose(level, elevation.level) : level;
+  }
+
+  /**
+   * Writes a message to the console and to all transports.
+   *
+   * Shared by plain ({@link Log.logger}) and structured ({@link Log.event})
+   * log calls. Structured fields are appended to the console output as a
+   * single `key=value` string, while transports receive them unmodified
+   * as part of the {@link LogRecord}. Arguments and fields are redacted
+   * first (see {@link LogRedactSettings}). Console output opens the pending
+   * groups of {@link Log.group}.
+   *
+   * @param msglvl
+   *   The log level of the message.
+   * @param args
+   *   The message arguments, without the plugin name prefix.
+   * @param fields
+   *   Optional structured metadata of the message.
+   */
+  private emit(msglvl: ExclusiveLogLevel, args: unknown[], fields?: LogFields) {
+    if (!this.isLevelEnabled(msglvl)) return;
+
+    const setlvl = this.effectiveLevel();
+
+    // redact before any output, i.e. console, transports and buffer
+    args   = this.root.redactor.value(args);
+    fields = this.root.redactor.value(fields);
+
+    if (isEnabled(msglvl, setlvl)) {
+      this.openGroups();
+
+      // One-time warning before the very first debug output
+      Log.debugWarningShown = showDebugWarning(Log.debugWarningShown, msglvl, this.pluginname);
+
+      const rendered = fields ? formatFields(fields) : "";
+      if (rendered) {
+        CONSOLE_FN[msglvl](this.prefix, ...args, rendered);
+      } else {
+        CONSOLE_FN[msglvl](this.prefix, ...args);
+      }
+    }
+
+    this.dispatch(msglvl, setlvl, args, fields);
   }
 
   /**
@@ -192,25 +1094,74 @@ export class Log {
    *   - "info" → blue
    *   - "log" → neutral / default
    *   - "success" → green
+   * @param display - Optional display time in milliseconds (`0` keeps the
+   *   notice until it is dismissed, defaults to Obsidian's default timeout),
+   *   buttons and click handler of the notice.
+   *
+   * Repeated notices are coalesced and the number of visible notices is
+   * limited, see {@link LogNoticeLimits}.
    */
-  private note(message: string, level: ExclusiveLogLevel | "success") {
-    const n = new Notice(message);
-
-    const cssClass = (() => {
-      switch (level) {
-        case ERROR:   return "notice-error";
-        case WARN:    return "notice-warn";
-        case INFO:    return "notice-info";
-        case SUCCESS: return "notice-success";
-        case LOG:     return ""; // neutral / default
-        /* c8 ignore next -- defensive default, unreachable via public notice() API */
-        default:      return "";
-      }
-    })();
-    // was: noticeEl (deprecated since 0.9.7) => messageEl
-    if (cssClass) n.messageEl.addClass(cssClass);
+  private note(message: string, level: ExclusiveLogLevel | "success", display: Omit<LogNoticeDisplay, "cls"> = {}) {
+    this.root.notices.show(this.root.redactor.text(message), { ...display, cls: getNoticeClass(level) });
   }  
 
+  /**
+   * Private helper recording a notice in the history of the root logger,
+   * dropping the oldest notification beyond {@link NOTIFICATION_HISTORY_SIZE}.
+   */
+  private remember(level: NoticeLevel, message: string, error?: unknown) {
+    const history  = this.root.notifications;
+    const redactor = this.root.redactor;
+
+    history.push({
+      level,
+      message: redactor.text(message),
+      timestamp: Date.now(),
+      ...(this.namespace !== undefined && { namespace: this.namespace }),
+      ...(error !== undefined && { error: redactor.value(error) }),
+    });
+    if (history.length > NOTIFICATION_HISTORY_SIZE) history.splice(0, history.length - NOTIFICATION_HISTORY_SIZE);
+  }
+
+  /**
+   * Private helper collecting the buttons of a notice: "Copy details" for
+   * errors, "Open log" for errors and warnings if a viewer is set, followed
+   * by the actions of the call. Failing actions are logged as errors.
+   */
+  private noticeActions(message: string, level: NoticeLevel, error: unknown, actions: LogNoticeAction[] = []): LogNoticeAction[] {
+    const viewer = this.root.viewer;
+    const all: LogNoticeAction[] = [];
+
+    if (error !== undefined) {
+      all.push({ label: "Copy details", callback: async () => {
+        await navigator.clipboard.writeText(this.root.redactor.text(formatErrorDetails(message, error)));
+        this.notice("Details copied to clipboard", SUCCESS);
+      } });
+    }
+    if (viewer && (level === ERROR || level === WARN)) {
+      all.push({ label: "Open log", callback: viewer });
+    }
+    return [ ...all, ...actions ].map(({ label, callback }) => ({
+      label,
+      callback: () => Promise.resolve()
+        .then(callback)
+        .catch((error) => this.logger(ERROR, `Notice action "${label}" failed:`, error)),
+    }));
+  }
+
+  /**
+   * Private helper returning the click handler of a notice opening a vault
+   * path or revealing a leaf, if the logger is attached to a plugin.
+   */
+  private noticeOpener(target?: string | WorkspaceLeaf): (() => unknown) | undefined {
+    const workspace = this.root.host?.plugin.app.workspace;
+
+    if (!workspace || target === undefined) return undefined;
+    return typeof target === "string"
+      ? () => workspace.openLinkText(target, "", false)
+      : () => workspace.revealLeaf(target);
+  }
+
   /**
    * Logs a debug-level message to the console.
    *
@@ -219,11 +1170,17 @@ export class Log {
    *
    * @param data
    *   One or more values to log. These are forwarded directly to the
-   *   console.debug method, prefixed with the plugin name.
+   *   console.debug method, prefixed with the plugin name. A single
+   *   {@link LogMessageThunk} is called only if the level is enabled.
    *
    * @example
    * logger.debug("Current state:", stateObject);
+   *
+   * // Serialized only if "debug" is enabled
+   * logger.debug(() => [ "Current state:", JSON.stringify(stateObject) ]);
    */
+  public debug(thunk: LogMessageThunk): void;
+  public debug(...data: unknown[]): void;
   public debug(...data: unknown[]) {
     this.logger(DEBUG, ...data);
   }
@@ -236,11 +1193,14 @@ export class Log {
    *
    * @param data
    *   One or more values to log. These are forwarded directly to the
-   *   console.log method, prefixed with the plugin name.
+   *   console.log method, prefixed with the plugin name. A single
+   *   {@link LogMessageThunk} is called only if the level is enabled.
    *
    * @example
    * logger.log("Plugin loaded successfully");
    */
+  public log(thunk: LogMessageThunk): void;
+  public log(...data: unknown[]): void;
   public log(...data: unknown[]) {
     this.logger(LOG, ...data);
   }
@@ -252,11 +1212,14 @@ export class Log {
    *
    * @param data
    *   One or more values to log. These are forwarded directly to the
-   *   console.info method, prefixed with the plugin name.
+   *   console.info method, prefixed with the plugin name. A single
+   *   {@link LogMessageThunk} is called only if the level is enabled.
    *
    * @example
    * logger.info("Initialization complete");
    */
+  public info(thunk: LogMessageThunk): void;
+  public info(...data: unknown[]): void;
   public info(...data: unknown[]) {
     this.logger(INFO, ...data);
   }
@@ -269,11 +1232,14 @@ export class Log {
    *
    * @param data
    *   One or more values to log. These are forwarded directly to the
-   *   console.warn method, prefixed with the plugin name.
+   *   console.warn method, prefixed with the plugin name. A single
+   *   {@link LogMessageThunk} is called only if the level is enabled.
    *
    * @example
    * logger.warn("Configuration value is deprecated:", deprecatedValue);
    */
+  public warn(thunk: LogMessageThunk): void;
+  public warn(...data: unknown[]): void;
   public warn(...data: unknown[]) {
     this.logger(WARN, ...data);
   }
@@ -283,12 +1249,16 @@ export class Log {
    *
    * The message will be output if the current logger level is "error" or more verbose
    * ("warn", "debug", "log", or "info"). The method automatically appends
-   * the provided Error object to the logged data.
+   * the provided error to the logged data.
    *
    * @param error
-   *   The Error object representing the error to log.
+   *   The error to log. Accepts any thrown value (e.g. a string or a
+   *   `DOMException`), so `catch (e)` blocks can pass whatever they caught.
+   *   Transports receive the value unchanged; log files store it normalized
+   *   (see {@link LogErrorInfo}).
    * @param data
-   *   Optional additional values to include in the log output.
+   *   Optional additional values to include in the log output, or a single
+   *   {@link LogMessageThunk} computing them.
    *
    * @example
    * try {
@@ -297,10 +1267,39 @@ export class Log {
    *   logger.error(e, "Failed to execute someFunction");
    * }
    */
-  public error( error: Error, ...data: unknown[] ) {
+  public error( error: unknown, ...data: unknown[] ) {
+    if (isLogThunk(data)) {
+      if (!this.isLevelEnabled(ERROR)) return;
+      data = evaluateLogThunk(data[0]);
+    }
     this.logger(ERROR, ...data, error);
   }
 
+  /**
+   * Logs a structured message consisting of a message text and typed
+   * key/value metadata.
+   *
+   * The console output renders the fields as a single grep-friendly
+   * `key=value` string after the message. Transports receive the message
+   * and a snapshot of the fields as {@link LogRecord.message} and
+   * {@link LogRecord.fields}, keeping them machine-readable.
+   *
+   * @param level
+   *   The log level of the message. "none" is excluded since it disables logging.
+   * @param message
+   *   The message text.
+   * @param fields
+   *   Optional key/value metadata. `undefined` values are omitted from the
+   *   console output.
+   *
+   * @example
+   * logger.event("info", "Note indexed", { file: "daily/2026-01-01.md", durationMs: 12 });
+   * // console.info("MyPlugin", "Note indexed", "file=daily/2026-01-01.md durationMs=12")
+   */
+  public event(level: ExclusiveLogLevel, message: string, fields: LogFields = {}) {
+    this.emit(level, [ message ], fields);
+  }
+
   /**
    * Displays a notice in Obsidian and optionally logs it to the console.
    *
@@ -310,7 +1309,8 @@ export class Log {
    * 2. Shows a visual Notice popup depending on the specified level.
    *
    * The mapping of `NoticeLevel` to behavior is:
-   * - `Error` objects → logged as `"error"`, displayed as an error Notice (red)
+   * - `Error` objects and any other thrown value (see below) → logged as
+   *   `"error"`, displayed as an error Notice (red)
    * - `"error"` → logged as `"error"`, displayed as an error Notice (red)
    * - `"warn"` → logged as `"warn"`, displayed as a warning Notice (yellow)
    * - `"success"` → logged as `"debug"`, displayed as a success Notice (green)
@@ -318,9 +1318,32 @@ export class Log {
    * - `"log"` → logged as `"log"`, displayed as a standard Notice
    * - `"info"` or `undefined` → logged as `"info"`, displayed as an info Notice (blue)
    *
+   * Display options are resolved from the `options` of the call, then from
+   * the per-level defaults in {@link LogSettings.notices}
+   * (see {@link LogNoticeOptions}). A `silent` notice is logged only, as is
+   * a notice below the {@link LogSettings.noticeLevel} threshold.
+   *
+   * Error notices offer a "Copy details" button copying the message and the
+   * stack; error and warning notices offer an "Open log" button if a viewer
+   * is set (see {@link Log.setViewer}). Further buttons and a file or leaf
+   * to open on click are passed via `options.actions` and `options.open`.
+   * Shown notices are recorded in the notification history
+   * (see {@link Log.getNotifications}).
+   *
+   * Any `level` that is not a {@link NoticeLevel} is treated as a thrown
+   * value (an `Error`, a string, a rejected non-Error, a `DOMException`), so
+   * `catch (e)` blocks can pass whatever they caught. The notice shows the
+   * error's `name: message`; "Copy details" copies its stack, `cause` chain
+   * and aggregated errors (see {@link LogErrorInfo}).
+   *
+   * A string that looks like a level but is none, such as a mistyped
+   * `"Warn"` (see {@link isLevelLike}), is reported via `console.warn` and
+   * shown as `"info"` notice instead of as error notice.
+   *
    * @param message - The message to log and/or display in a Notice.
    * @param level - Optional level determining the log severity and Notice styling.
-   *                Can be any {@link NoticeLevel} or an `Error` object.
+   *                Can be any {@link NoticeLevel} or a thrown value.
+   * @param options - Optional {@link LogNoticeOptions} for this call.
    *
    * @example
    * // Log an informational notice
@@ -332,6 +1355,17 @@ export class Log {
    * // Log an error with popup
    * logger.notice("Failed to load configuration", new Error("Missing file"));
    *
+   * // Pass a caught value
+   * try { await sync(); } catch (e) { logger.notice("Sync failed", e); }
+   *
+   * // Keep an error visible until dismissed, log a message without popup
+   * logger.notice("Sync failed", error, { persistent: true });
+   * logger.notice("Cache rebuilt", "info", { silent: true });
+   *
+   * // Offer a retry, open the exported note on click
+   * logger.notice("Sync conflict", "warn", { actions: [{ label: "Retry", callback: () => sync() }] });
+   * logger.notice("Export written", "success", { open: "Exports/2026-01-31.md" });
+   *
    * @remarks
    * - `NoticeLevel "debug"` will never trigger a Notice popup, allowing
    *   debug information to be logged silently.
@@ -339,29 +1373,390 @@ export class Log {
    *
    * @internal
    */
-  public notice(message: string, level?: NoticeLevel | Error) {
-    // 1. check for loglevel
-    const logLevel = getLogLevel(level);
+  public notice(message: string, level?: NoticeLevel, options?: LogNoticeOptions): void;
+  public notice(message: string, error: unknown, options?: LogNoticeOptions): void;
+  public notice(message: string, level?: unknown, options?: LogNoticeOptions) {
+    // 1. check for loglevel; anything but a notice level is a thrown value,
+    //    unless it is a mistyped level
+    if (isLevelLike(level)) {
+      CONSOLE_FN[WARN](this.prefix, INVALID_NOTICE_LEVEL_WARNING, level);
+      level = INFO;
+    }
+
+    const thrown   = level !== undefined && !isNoticeLevel(level);
+    const kind     = thrown ? ERROR : (level as NoticeLevel | undefined) ?? INFO;
+    const logLevel = getLogLevel(kind);
+    const settings = this.root.settings;
+    const display  = {
+      ...resolveNoticeOptions(settings, kind, options),
+      actions: this.noticeActions(message, kind, thrown ? level : undefined, options?.actions),
+      onClick: this.noticeOpener(options?.open),
+    };
 
     // 2. Log via logger (only prints if settings allow)
-    if (level instanceof Error) {
-      this.logger(logLevel, message, level as Error);
+    if (thrown) {
+      this.logger(logLevel, message, level);
     } else {
       this.logger(logLevel, message);
     }
 
     // 2. Show Notice
-    if (level instanceof Error) {
-      this.note(`${message}\r\n${level.toString()}`, ERROR);
+    if (display.silent || !isNoticeEnabled(kind, settings.noticeLevel)) {
+      return;
+    }
+
+    this.remember(kind, message, thrown ? level : undefined);
+    if (thrown) {
+      const { name, message: reason } = normalizeError(level);
+      this.note(`${message}\r\n${name}: ${reason}`, ERROR, display);
     } else if ((level === ERROR)   || (level === WARN) || 
                (level === SUCCESS) || (level === LOG))  {
-      this.note(message, level);
+      this.note(message, level, display);
     } else if (level === DEBUG) {
       // debug does not trigger a notice
       return;
     } else {
       // undefined or info
-      this.note(message, INFO);
+      this.note(message, INFO, display);
     }
-  }  
-}
\ No newline at end of file
+  }
+
+  /**
+   * Console groups of running {@link Log.group} callbacks, outermost first.
+   * A group is opened on the console only once a message inside it is
+   * written to the console. Only the stack of the root logger is used.
+   */
+  private readonly groups: { prefix: string; label: string; collapsed: boolean; opened: boolean }[] = [];
+
+  /**
+   * Wraps everything logged to the console inside a callback into a console
+   * group (`console.group()` / `console.groupEnd()`).
+   *
+   * The group is opened lazily, right before the first message inside it
+   * passes the level gating, so callbacks whose messages are all filtered
+   * out leave no empty groups behind. Groups nest, also across child
+   * loggers; an inner message opens all enclosing groups.
+   *
+   * Asynchronous callbacks keep the group until their promise settles.
+   * Console groups are global, so messages logged elsewhere while such a
+   * callback is pending end up in the group as well.
+   *
+   * @param label
+   *   The label of the group, shown after the logger prefix.
+   * @param fn
+   *   The callback whose messages are grouped.
+   * @returns
+   *   The result of `fn`, i.e. its promise for asynchronous callbacks.
+   *
+   * @example
+   * logger.group("Indexing", () => {
+   *   logger.debug("Scanning folders");   // at "warn": no output, no group
+   *   logger.warn("Skipped broken note"); // opens the group first
+   * });
+   */
+  public group<T>(label: string, fn: () => T): T {
+    return this.grouped(label, false, fn);
+  }
+
+  /**
+   * Like {@link Log.group}, but opens the console group collapsed
+   * (`console.groupCollapsed()`).
+   *
+   * @param label
+   *   The label of the group, shown after the logger prefix.
+   * @param fn
+   *   The callback whose messages are grouped.
+   * @returns
+   *   The result of `fn`, i.e. its promise for asynchronous callbacks.
+   *
+   * @example
+   * await logger.groupCollapsed("Sync", () => sync(vault));
+   */
+  public groupCollapsed<T>(label: string, fn: () => T): T {
+    return this.grouped(label, true, fn);
+  }
+
+  /**
+   * Runs a callback inside a lazily opened console group, see {@link Log.group}.
+   *
+   * @param label
+   *   The label of the group.
+   * @param collapsed
+   *   Whether the group is opened collapsed.
+   * @param fn
+   *   The callback whose messages are grouped.
+   * @returns
+   *   The result of `fn`.
+   */
+  private grouped<T>(label: string, collapsed: boolean, fn: () => T): T {
+    const groups = this.root.groups;
+    const group  = { prefix: this.prefix, label, collapsed, opened: false };
+    let   result: T;
+
+    const close = () => {
+      groups.splice(groups.indexOf(group), 1);
+      if (group.opened) CONSOLE_GROUP_FN.groupEnd();
+    };
+
+    groups.push(group);
+    try {
+      result = fn();
+    } catch (e) {
+      close();
+      throw e;
+    }
+
+    if (!(result instanceof Promise)) {
+      close();
+      return result;
+    }
+    return result.finally(close) as T;
+  }
+
+  /**
+   * Opens all pending console groups, outermost first, before a message is
+   * written to the console.
+   */
+  private openGroups() {
+    for (const group of this.root.groups) {
+      if (group.opened) continue;
+
+      group.opened = true;
+      const open   = group.collapsed ? CONSOLE_GROUP_FN.groupCollapsed : CONSOLE_GROUP_FN.group;
+      open(group.prefix, this.root.redactor.text(group.label));
+    }
+  }
+
+  /**
+   * Timers started via {@link Log.time}, keyed by label. Every logger keeps
+   * its own timers, so equal labels of different namespaces do not collide.
+   */
+  private readonly timers = new Map<string, number>();
+
+  /**
+   * Starts a timer, ended and logged via {@link Log.timeEnd}.
+   *
+   * Starting a timer whose label is already running logs a warning and
+   * keeps the original start time.
+   *
+   * @param label
+   *   The name of the timer, used as message of the duration.
+   *
+   * @example
+   * logger.time("Index vault");
+   * await indexVault();
+   * logger.timeEnd("Index vault"); // my-plugin Index vault durationMs=182.4
+   */
+  public time(label: string) {
+    if (this.timers.has(label)) {
+      this.event(WARN, `Timer "${label}" already started`);
+      return;
+    }
+    this.timers.set(label, performance.now());
+  }
+
+  /**
+   * Ends a timer started via {@link Log.time} and logs its duration as
+   * `durationMs` field.
+   *
+   * The duration is logged at the level of the timing options (`"debug"` by
+   * default) or as `"warn"` if it exceeds their `slowMs` threshold.
+   * Ending a timer that is not running logs a warning.
+   *
+   * @param label
+   *   The name of the timer.
+   * @param options
+   *   Optional {@link LogTimingOptions}, taking precedence over
+   *   {@link LogSettings.timing}.
+   * @returns
+   *   The duration in milliseconds, or `undefined` if the timer is not running.
+   *
+   * @example
+   * logger.time("Render");
+   * render();
+   * logger.timeEnd("Render", { slowMs: 16 });
+   */
+  public timeEnd(label: string, options?: LogTimingOptions): number | undefined {
+    const started = this.timers.get(label);
+
+    if (started === undefined) {
+      this.event(WARN, `Timer "${label}" does not exist`);
+      return undefined;
+    }
+    this.timers.delete(label);
+    return this.timed(label, started, options);
+  }
+
+  /**
+   * Runs a function and logs its duration as `durationMs` field, like
+   * {@link Log.time} and {@link Log.timeEnd}.
+   *
+   * Asynchronous functions are measured until their promise settles.
+   * A failure (a throw or a rejection) is logged as `"error"` with the thrown
+   * value and the elapsed time, then passed on to the caller.
+   *
+   * @param label
+   *   The name of the measured operation, used as message of the duration.
+   * @param fn
+   *   The function to run.
+   * @param options
+   *   Optional {@link LogTimingOptions}, taking precedence over
+   *   {@link LogSettings.timing}.
+   * @returns
+   *   The result of `fn`, i.e. its promise for asynchronous functions.
+   *
+   * @example
+   * const notes = await logger.measure("Load notes", () => loadNotes(vault), { slowMs: 500 });
+   * const html  = logger.measure("Render", () => render(notes));
+   */
+  public measure<T>(label: string, fn: () => T, options?: LogTimingOptions): T {
+    const started = performance.now();
+    let   result: T;
+
+    try {
+      result = fn();
+    } catch (e) {
+      this.timed(label, started, options, e);
+      throw e;
+    }
+
+    if (!(result instanceof Promise)) {
+      this.timed(label, started, options);
+      return result;
+    }
+    return result.then(
+      (value) => {
+        this.timed(label, started, options);
+        return value;
+      },
+      (e) => {
+        this.timed(label, started, options, e);
+        throw e;
+      }) as T;
+  }
+
+  /**
+   * Logs the duration of a timed operation (see {@link Log.timeEnd} and
+   * {@link Log.measure}).
+   *
+   * @param label
+   *   The name of the operation.
+   * @param started
+   *   The start time, as returned by `performance.now()`.
+   * @param options
+   *   The timing options of the call.
+   * @param error
+   *   The thrown value of a failed operation, logged as `"error"`.
+   * @returns
+   *   The duration in milliseconds.
+   */
+  private timed(label: string, started: number, options?: LogTimingOptions, ...error: unknown[]): number {
+    const durationMs        = Math.round((performance.now() - started) * 100) / 100;
+    const { level, slowMs } = resolveTimingOptions(this.root.settings, options);
+
+    if (error.length) {
+      this.emit(ERROR, [ `${label} failed:`, error[0] ], { durationMs });
+    } else if (slowMs !== undefined && durationMs > slowMs) {
+      this.event(WARN, `${label} exceeded ${slowMs} ms`, { durationMs, slowMs });
+    } else {
+      this.event(level, label, { durationMs });
+    }
+    return durationMs;
+  }
+
+  /**
+   * Shows a notice tracking a long-running operation, updated in place.
+   *
+   * The notice stays visible while the operation runs and shows the title,
+   * the current step and the completed percentage. `succeed()` and `fail()`
+   * style the notice with the `notice-success` and `notice-error` classes
+   * and hide it after the duration configured for these levels in
+   * {@link LogSettings.notices} (Obsidian's default timeout if unset).
+   *
+   * The start and all updates are logged as `"debug"`, success as `"info"`
+   * and failure as `"error"`, the latter two with their `durationMs`.
+   * If {@link LogSettings.noticeLevel} hides `"info"` notices, no progress
+   * notice is shown; the outcome is shown as regular notice if its level
+   * passes the threshold. If the outcome's level is `silent` in
+   * {@link LogSettings.notices}, the progress notice is hidden instead.
+   *
+   * The progress notice bypasses the deduplication and flood control of
+   * {@link LogSettings.noticeLimits}: it is a single notice per operation,
+   * updated in place, so it cannot flood the screen, and its outcome must
+   * not be coalesced with that of an earlier run of the same operation.
+   *
+   * @param title
+   *   The name of the operation, prefixed to every message.
+   * @returns
+   *   The {@link LogProgress} handle of the operation.
+   *
+   * @example
+   * const progress = logger.progress("Renaming notes");
+   * try {
+   *   for (const [i, file] of files.entries()) {
+   *     progress.update(file.basename, i / files.length);
+   *     await rename(file);
+   *   }
+   *   progress.succeed(`${files.length} notes renamed`);
+   * } catch (e) {
+   *   progress.fail(e as Error);
+   * }
+   */
+  public progress(title: string): LogProgress {
+    const started  = Date.now();
+    const settings = this.root.settings;
+    const redact   = (text: string) => this.root.redactor.text(text);
+    const notice   = isNoticeEnabled(INFO, settings.noticeLevel) ? new Notice(redact(title), 0) : undefined;
+    let   done     = false;
+
+    const finish = (level: typeof SUCCESS | typeof ERROR, text: string, error?: unknown) => {
+      const { duration, silent } = resolveNoticeOptions(settings, level, {});
+
+      done = true;
+      if (notice && silent) {
+        notice.hide();
+      } else if (notice) {
+        this.remember(level, text, error);
+        notice.setMessage(redact(text));
+        notice.messageEl.addClass(getNoticeClass(level));
+        if (duration !== 0) setTimeout(() => notice.hide(), duration ?? DEFAULT_NOTICE_MS);
+      } else if (!silent && isNoticeEnabled(level, settings.noticeLevel)) {
+        this.remember(level, text, error);
+        this.note(text, level, { duration });
+      }
+    };
+
+    this.event(DEBUG, `${title} started`);
+
+    return {
+      update: (message, fraction) => {
+        if (done) return;
+
+        const percent = Number.isFinite(fraction) ? Math.round(Math.min(Math.max(fraction!, 0), 1) * 100) : undefined;
+        const text    = percent === undefined ? `${title}: ${message}` : `${title}: ${message} (${percent}%)`;
+
+        this.event(DEBUG, text);
+        notice?.setMessage(redact(text));
+      },
+      succeed: (message = "done") => {
+        if (done) return;
+
+        const text = `${title}: ${message}`;
+        this.event(INFO, text, { durationMs: Date.now() - started });
+        finish(SUCCESS, text);
+      },
+      fail: (error?: unknown) => {
+        if (done) return;
+
+        if (error === undefined) {
+          this.event(ERROR, `${title}: failed`, { durationMs: Date.now() - started });
+          finish(ERROR, `${title}: failed`);
+        } else {
+          this.emit(ERROR, [ `${title} failed:`, error ], { durationMs: Date.now() - started });
+          finish(ERROR, `${title}: ${normalizeError(error).message}`, error);
+        }
+      },
+      isDone: () => done,
+    };
+  }
+}
@@ -0,0 +1,302 @@
+import { ItemView,
+         Notice             } from "obsidian";
+import type { Plugin,
+              WorkspaceLeaf } from "obsidian";
+import { INFO,
+         NONE,
+         LogRecord,
+         LogRecordFilter,
+         LogViewOptions     } from "./types"
+import { formatRecordText,
+         formatTime,
+         isLogLevel,
+         matchRecord        } from "./log.internal"
+import { LOG_LEVEL_LABELS   } from "./log.settings"
+import { Log                } from "./log"
+
+/**
+ * Default number of records kept by a {@link LogView}.
+ */
+const DEFAULT_MAX_RECORDS = 1000;
+
+/**
+ * A live log viewer for environments without DevTools, e.g. Obsidian mobile.
+ *
+ * The view shows the records in the logger's buffer (see {@link Log.getRecent})
+ * and streams new records while it is open, via a {@link LogTransport}
+ * registered with the logger. The toolbar offers:
+ * - filters by level, namespace pattern and text,
+ * - pause/resume (records arriving while paused are shown on resume),
+ * - copying the selected records (or all visible records if none is selected),
+ * - clearing the view.
+ *
+ * Rows are selected by clicking them.
+ *
+ * Use {@link registerLogView} to register the view with a plugin.
+ */
+export class LogView extends ItemView {
+  /**
+   * All records of the view, oldest first.
+   */
+  private records: LogRecord[] = [];
+  private rows     = new Map<LogRecord, HTMLElement>();
+  private selected = new Set<LogRecord>();
+  private filter: LogRecordFilter = {};
+  private paused = false;
+  private remove?: () => void;
+
+  private listEl!: HTMLElement;
+  private pauseEl!: HTMLButtonElement;
+
+  /**
+   * @param leaf
+   *   The workspace leaf hosting the view.
+   * @param log
+   *   The logger whose records are shown.
+   * @param options
+   *   The {@link LogViewOptions} passed to {@link registerLogView}.
+   */
+  constructor(leaf: WorkspaceLeaf, private readonly log: Log, private readonly options: Required<Pick<LogViewOptions, "type" | "name" | "icon">> & LogViewOptions) {
+    super(leaf);
+  }
+
+  public getViewType(): string {
+    return this.options.type;
+  }
+
+  public getDisplayText(): string {
+    return this.options.name;
+  }
+
+  public getIcon(): string {
+    return this.options.icon;
+  }
+
+  /**
+   * Builds the toolbar and starts streaming records.
+   */
+  public async onOpen() {
+    const { contentEl } = this;
+
+    contentEl.empty();
+    contentEl.addClass("log-view");
+
+    const toolbar = contentEl.createDiv({ cls: "log-view-toolbar" });
+
+    const levelEl = toolbar.createEl("select", { cls: "dropdown log-view-level" });
+    for (const [ level, label ] of Object.entries(LOG_LEVEL_LABELS)) {
+      if (level !== NONE) levelEl.createEl("option", { text: label, value: level });
+    }
+    levelEl.value = INFO;
+    levelEl.addEventListener("change", () => {
+      this.setFilter({ level: isLogLevel(levelEl.value) ? levelEl.value : undefined });
+    });
+
+    const namespaceEl = toolbar.createEl("input", { type: "search", placeholder: "Namespace, e.g. sync:*", cls: "log-view-namespace" });
+    namespaceEl.addEventListener("input", () => this.setFilter({ namespace: namespaceEl.value.trim() || undefined }));
+
+    const textEl = toolbar.createEl("input", { type: "search", placeholder: "Filter text", cls: "log-view-text" });
+    textEl.addEventListener("input", () => this.setFilter({ text: textEl.value || undefined }));
+
+    this.pauseEl = toolbar.createEl("button", { text: "Pause", cls: "log-view-pause" });
+    this.pauseEl.addEventListener("click", () => this.setPaused(!this.paused));
+
+    toolbar.createEl("button", { text: "Copy", cls: "log-view-copy" })
+      .addEventListener("click", () => void this.copy());
+    toolbar.createEl("button", { text: "Clear", cls: "log-view-clear" })
+      .addEventListener("click", () => this.clear());
+
+    this.listEl = contentEl.createDiv({ cls: "log-view-list" });
+
+    this.records = this.log.getRecent({ limit: this.maxRecords });
+    this.remove  = this.log.addTransport({
+      level: this.options.level,
+      write: (record) => this.add(record),
+    });
+    this.render();
+  }
+
+  /**
+   * Stops streaming records.
+   */
+  public async onClose() {
+    this.remove?.();
+    this.remove = undefined;
+  }
+
+  /**
+   * Whether new records are currently held back from rendering.
+   */
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Pauses or resumes rendering. Records keep being collected while paused
+   * and are shown on resume.
+   *
+   * @param paused
+   *   `true` to pause, `false` to resume.
+   */
+  public setPaused(paused: boolean) {
+    this.paused = paused;
+    this.pauseEl.setText(paused ? "Resume" : "Pause");
+    if (!paused) this.render();
+  }
+
+  /**
+   * Updates the filter and re-renders the view.
+   *
+   * @param filter
+   *   The criteria to change; other criteria are kept.
+   */
+  public setFilter(filter: LogRecordFilter) {
+    this.filter = { ...this.filter, ...filter };
+    this.render();
+  }
+
+  /**
+   * Returns the records currently visible, oldest first.
+   */
+  public getVisible(): LogRecord[] {
+    return this.records.filter((record) => matchRecord(record, this.filter));
+  }
+
+  /**
+   * Copies the selected records, or all visible records if none is
+   * selected, to the clipboard as plain text. A failure to write the
+   * clipboard is logged.
+   */
+  public async copy() {
+    const visible = this.getVisible();
+    const records = visible.some((record) => this.selected.has(record))
+      ? visible.filter((record) => this.selected.has(record))
+      : visible;
+
+    try {
+      await navigator.clipboard.writeText(records.map(formatLine).join("\n"));
+      new Notice(`Copied ${records.length} log record${records.length === 1 ? "" : "s"}`);
+    } catch (error) {
+      this.log.error(error, "Failed to copy log records");
+    }
+  }
+
+  /**
+   * Removes all records from the view. The logger's buffer is not affected.
+   */
+  public clear() {
+    this.records = [];
+    this.selected.clear();
+    this.render();
+  }
+
+  /**
+   * The capacity of the view, normalized to a positive integer.
+   */
+  private get maxRecords(): number {
+    const max = this.options.maxRecords ?? DEFAULT_MAX_RECORDS;
+    return Number.isFinite(max) && max > 0 ? Math.floor(max) : DEFAULT_MAX_RECORDS;
+  }
+
+  /**
+   * Adds a streamed record, dropping the oldest records beyond the capacity.
+   */
+  private add(record: LogRecord) {
+    this.records.push(record);
+
+    for (const old of this.records.splice(0, Math.max(this.records.length - this.maxRecords, 0))) {
+      this.rows.get(old)?.remove();
+      this.rows.delete(old);
+      this.selected.delete(old);
+    }
+    if (!this.paused && matchRecord(record, this.filter)) this.renderRow(record);
+  }
+
+  /**
+   * Re-renders all visible records.
+   */
+  private render() {
+    this.listEl.empty();
+    this.rows.clear();
+    this.getVisible().forEach((record) => this.renderRow(record));
+  }
+
+  /**
+   * Appends a single record to the list.
+   */
+  private renderRow(record: LogRecord) {
+    const row = this.listEl.createDiv({ cls: [ "log-view-row", `log-view-${record.level}` ] });
+
+    row.createSpan({ cls: "log-view-time",  text: formatTime(record.timestamp) });
+    row.createSpan({ cls: "log-view-badge", text: record.level.toUpperCase() });
+    if (record.namespace) row.createSpan({ cls: "log-view-ns", text: record.namespace });
+    row.createSpan({ cls: "log-view-message", text: formatRecordText(record) });
+
+    this.rows.set(record, row);
+    row.toggleClass("is-selected", this.selected.has(record));
+    row.addEventListener("click", () => {
+      if (!this.selected.delete(record)) this.selected.add(record);
+      row.toggleClass("is-selected", this.selected.has(record));
+    });
+  }
+}
+
+/**
+ * Renders a record as a line of plain text for the clipboard.
+ */
+function formatLine(record: LogRecord): string {
+  const namespace = record.namespace ? ` ${record.namespace}:` : "";
+  return `${new Date(record.timestamp).toISOString()} ${record.level.toUpperCase()}${namespace} ${formatRecordText(record)}`;
+}
+
+/**
+ * Registers a {@link LogView} with a plugin.
+ *
+ * The view is registered via `plugin.registerView()`, so Obsidian takes care
+ * of restoring and detaching it. The returned function opens the view (or
+ * reveals it if it is already open) in the right sidebar; bind it to a
+ * command or ribbon icon to make the log reachable on mobile. The function
+ * is also set as the logger's viewer (see {@link Log.setViewer}), so error
+ * and warning notices offer an "Open log" button until the plugin unloads.
+ *
+ * @param plugin
+ *   The plugin to register the view with.
+ * @param log
+ *   The logger whose records are shown.
+ * @param options
+ *   Optional {@link LogViewOptions}.
+ * @returns
+ *   A function that opens the view.
+ *
+ * @example
+ * async onload() {
+ *   const log  = await Log.attach(this);
+ *   const open = registerLogView(this, log);
+ *
+ *   this.addCommand({ id: "open-log", name: "Open log", callback: open });
+ * }
+ */
+export function registerLogView(plugin: Plugin, log: Log, options: LogViewOptions = {}): () => Promise<void> {
+  const resolved = {
+    ...options,
+    type: options.type ?? `${plugin.manifest.id}-log`,
+    name: options.name ?? "Log",
+    icon: options.icon ?? "scroll-text",
+  };
+
+  plugin.registerView(resolved.type, (leaf) => new LogView(leaf, log, resolved));
+
+  const open = async () => {
+    const { workspace } = plugin.app;
+
+    let leaf = workspace.getLeavesOfType(resolved.type)[0];
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf(true);
+      await leaf.setViewState({ type: resolved.type, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+  };
+
+  plugin.register(log.setViewer(open));
+  return open;
+}
@@ -1,3 +1,5 @@
+import type { Plugin, WorkspaceLeaf } from "obsidian";
+
 export const NONE = "none" as const;
 export const ERROR = "error" as const;
 export const WARN = "warn" as const;
@@ -74,34 +76,685 @@ export type ExclusiveLogLevel = Exclude<LogLevel, typeof LogLevels.NONE>;
  * - `"info"`  → logs as informational message, Notice styled as info (blue)
  * - `"success"` → logs as debug level, Notice styled as success (green)
  *
+ * Whether a Notice is shown is further limited by {@link LogSettings.noticeLevel}.
+ *
  * @remarks
  * Exporting this type ensures TypeScript enforces correct values
  * when calling `Log.notice` from other modules.
- *
- * @internal Test-only export
  */
 export type NoticeLevel = ExclusiveLogLevel | typeof SUCCESS;
 
 /**
  * Configuration interface for the logger.
  *
- * Contains the settings that control the behavior of the logger,
- * currently only the log level.
+ * Contains the settings that control the behavior of the logger:
+ * the global log level and optional per-namespace level rules.
  *
  * IMPORTANT:
  * This object is treated as a **live, mutable configuration**.
  * The logger keeps a reference to it and reacts to runtime changes.
  *
- * Mutating `loglevel` at runtime (e.g. via Obsidian settings)
+ * Mutating `loglevel` or `namespaces` at runtime (e.g. via Obsidian settings)
  * immediately affects logging behavior without reinitialization.
  * 
  * @property loglevel
  *   Specifies the verbosity of the logger. Must be a valid {@link LogLevel}.
  *   Messages with a level less than or equal to this value will be output.
+ *   Serves as fallback for namespaces without a matching rule.
+ * @property namespaces
+ *   Optional level rules for child loggers (see {@link Log.child}), keyed by
+ *   namespace pattern. Patterns follow the `debug` package style: `*` matches
+ *   any sequence of characters (including `:`), everything else matches
+ *   literally. If several patterns match, the most specific one wins: an exact
+ *   pattern beats any wildcard pattern, and among wildcard patterns the one
+ *   with more literal characters wins. Rules with an invalid level are ignored.
+ * @property buffer
+ *   Optional configuration of the in-memory buffer of recent log records
+ *   (see {@link Log.getRecent}). See {@link LogBufferSettings} for defaults.
+ * @property noticeLevel
+ *   Optional threshold for the notices shown by {@link Log.notice},
+ *   independent of `loglevel`. A notice is shown if its level is enabled
+ *   under this threshold; `"none"` shows no notices at all. For this purpose
+ *   `"success"` ranks like `"debug"` (matching its console level), while
+ *   `"debug"` notices are never shown. If omitted, all notices are shown.
+ *   Suppressed notices are still logged.
+ * @property notices
+ *   Optional default {@link LogNoticeOptions} per {@link NoticeLevel}, used by
+ *   {@link Log.notice}. Options passed to a call take precedence.
+ * @property noticeLimits
+ *   Optional deduplication and flood control of notices.
+ *   See {@link LogNoticeLimits} for defaults.
+ * @property redact
+ *   Optional configuration of the redaction of secrets and paths applied
+ *   before any output. Redaction is enabled by default,
+ *   see {@link LogRedactSettings}.
+ * @property timing
+ *   Optional defaults of {@link Log.timeEnd} and {@link Log.measure},
+ *   see {@link LogTimingOptions}. Options passed to a call take precedence.
  *
  * @example
- * const settings: LogSettings = { loglevel: "info" };
+ * const settings: LogSettings = {
+ *   loglevel: "warn",
+ *   namespaces: { "sync:*": "debug", "indexer": "error" },
+ *   buffer: { size: 500, level: "debug" },
+ *   noticeLevel: "warn",
+ *   notices: { error: { persistent: true }, info: { duration: 2000 } }
+ * };
  */
 export interface LogSettings {
   loglevel: LogLevel
+  namespaces?: Record<string, LogLevel>
+  buffer?: LogBufferSettings
+  noticeLevel?: LogLevel
+  notices?: Partial<Record<NoticeLevel, LogNoticeOptions>>
+  noticeLimits?: LogNoticeLimits
+  redact?: LogRedactSettings
+  timing?: LogTimingOptions
+}
+
+/**
+ * A caller-supplied redaction rule (see {@link LogRedactSettings.rules}):
+ * - a string is compiled to a global regular expression,
+ * - a regular expression is applied globally,
+ * and their matches are replaced by `"<redacted>"`;
+ * - a function receives a text and returns the redacted text.
+ *
+ * @example
+ * const rules: LogRedactRule[] = [ "ghp_[A-Za-z0-9]{36}", /\bsk-[\w-]+/, (text) => text.replaceAll(userName, "<user>") ];
+ */
+export type LogRedactRule = string | RegExp | ((text: string) => string);
+
+/**
+ * Redaction of secrets and personal data, applied to every log call before
+ * any output (console, transports, buffer) and to every notice, so that
+ * logs can be pasted into public issues.
+ *
+ * Redaction applies to strings and, recursively, to arrays, plain objects
+ * and errors in the logged arguments and fields; instances of other classes
+ * are passed unchanged. The built-in rules replace
+ * - the absolute vault base path of an attached logger by `<vault>`,
+ * - `Bearer` and `Basic` credentials,
+ * - values of `key=`, `token=`, `secret:`, `password=` … pairs,
+ * - e-mail addresses by `<email>`,
+ * - string and number values of object properties named like `key`,
+ *   `apiKey`, `token`, `secret` or `password`.
+ * Names that merely end in `key` or contain a secret word, such as `hotkey`,
+ * `primaryKey` or `tokens`, are not treated as secret.
+ * Caller-supplied rules are applied afterwards.
+ *
+ * @property enabled
+ *   `false` disables all redaction. Defaults to `true`.
+ * @property rules
+ *   Additional {@link LogRedactRule}s. Invalid patterns are ignored.
+ *   Only string patterns survive {@link Log.save}; pass regular
+ *   expressions and functions at runtime. The rules are compiled once;
+ *   assign a new array to change them at runtime.
+ *
+ * @example
+ * const settings: LogSettings = { loglevel: "info", redact: { rules: [ "ghp_[A-Za-z0-9]{36}" ] } };
+ */
+export interface LogRedactSettings {
+  enabled?: boolean
+  rules?: LogRedactRule[]
+}
+
+/**
+ * Options of the timing helpers {@link Log.timeEnd} and {@link Log.measure},
+ * passed per call or configured as defaults in {@link LogSettings.timing}.
+ *
+ * Durations are logged as `durationMs` field (see {@link Log.event}) and
+ * pass the same level gating as every other message.
+ *
+ * @property level
+ *   Level of the duration message. Defaults to `"debug"`.
+ * @property slowMs
+ *   Threshold in milliseconds. Longer durations are logged as `"warn"`,
+ *   with the threshold as `slowMs` field. Disabled by default.
+ *
+ * @example
+ * const timing: LogTimingOptions = { level: "log", slowMs: 250 };
+ */
+export interface LogTimingOptions {
+  level?: ExclusiveLogLevel
+  slowMs?: number
+}
+
+/**
+ * Deduplication and flood control of the notices shown by {@link Log.notice}.
+ *
+ * Identical notices (same text and level) repeated within `windowMs` of the
+ * previous occurrence are coalesced into one notice showing a repeat counter,
+ * e.g. `"Sync failed (×12)"`. At most `max` notices of a plugin are shown at
+ * the same time; further notices are summarized in a single notice.
+ * Every occurrence is still logged.
+ *
+ * @property windowMs
+ *   Time in milliseconds within which a repeated notice is coalesced.
+ *   `0` disables deduplication. Defaults to `5000`.
+ * @property max
+ *   Maximum number of simultaneously visible notices. `Infinity` disables
+ *   the limit. Defaults to `5`.
+ *
+ * @example
+ * const limits: LogNoticeLimits = { windowMs: 10_000, max: 3 };
+ */
+export interface LogNoticeLimits {
+  windowMs?: number
+  max?: number
+}
+
+/**
+ * Display options of a notice shown by {@link Log.notice}, passed per call
+ * or configured per level in {@link LogSettings.notices}.
+ *
+ * @property duration
+ *   Time in milliseconds the notice stays visible. Defaults to Obsidian's
+ *   default timeout. Negative and non-finite values are ignored.
+ * @property persistent
+ *   Keeps the notice visible until the user dismisses it.
+ *   Takes precedence over `duration` given alongside.
+ * @property silent
+ *   Logs the message without showing a notice.
+ * @property actions
+ *   Buttons rendered below the message, after the built-in "Copy details"
+ *   (error notices) and "Open log" (error and warning notices, if a log view
+ *   is registered) buttons. Only honoured per call, not in the settings.
+ * @property open
+ *   A vault path or leaf opened when the notice is clicked. Requires a logger
+ *   attached via {@link Log.attach}. Only honoured per call.
+ *
+ * @example
+ * log.notice("Sync failed", error, { persistent: true });
+ * log.notice("Cache rebuilt", "info", { silent: true });
+ * log.notice("Export written", "success", { open: "Exports/2026-01-31.md" });
+ * log.notice("Sync conflict", "warn", { actions: [{ label: "Retry", callback: () => sync() }] });
+ */
+export interface LogNoticeOptions {
+  duration?: number
+  persistent?: boolean
+  silent?: boolean
+  actions?: LogNoticeAction[]
+  open?: string | WorkspaceLeaf
+}
+
+/**
+ * A notice shown to the user, as recorded in the notification history
+ * (see {@link Log.getNotifications}).
+ *
+ * Unlike a {@link LogRecord}, a notification is the user-facing record of
+ * what the plugin told the user: it is recorded for every notice passing the
+ * `silent` option and the {@link LogSettings.noticeLevel} threshold,
+ * independent of the console's log level.
+ *
+ * @property level
+ *   The level of the notice; `Error` notices are recorded as `"error"`.
+ * @property message
+ *   The message of the notice, without the error.
+ * @property timestamp
+ *   Time the notice was shown in milliseconds since the epoch.
+ * @property namespace
+ *   The namespace of the child logger that showed the notice, if any.
+ * @property error
+ *   The error attached to the notice, if any, as passed to {@link Log.notice}
+ *   (any thrown value, see {@link LogErrorInfo}).
+ *
+ * @example
+ * const notification: LogNotification = {
+ *   level: "error",
+ *   message: "Sync failed",
+ *   timestamp: Date.now(),
+ *   error: new Error("offline")
+ * };
+ */
+export interface LogNotification {
+  readonly level: NoticeLevel
+  readonly message: string
+  readonly timestamp: number
+  readonly namespace?: string
+  readonly error?: unknown
+}
+
+/**
+ * A thrown value normalized into a serializable shape, e.g. for log files
+ * and bug reports.
+ *
+ * Anything can be thrown or rejected in JavaScript. `Error` instances,
+ * `DOMException`s and other objects with a string `message` keep their
+ * name, message and stack; the `cause` chain and the `errors` of an
+ * `AggregateError` are normalized recursively. Other values (strings,
+ * numbers, plain objects) become an `"Error"` with the value as message.
+ *
+ * @property name
+ *   The name of the error, e.g. `"TypeError"` or `"AbortError"`.
+ * @property message
+ *   The message of the error.
+ * @property stack
+ *   The stack trace, if available.
+ * @property cause
+ *   The normalized `cause` of the error, if any.
+ * @property errors
+ *   The normalized errors of an `AggregateError`.
+ * @property properties
+ *   Custom own enumerable properties of the error (e.g. `code`, `status`),
+ *   converted to JSON-compatible values.
+ *
+ * @example
+ * const info: LogErrorInfo = {
+ *   name: "Error",
+ *   message: "Sync failed",
+ *   cause: { name: "TypeError", message: "Failed to fetch" },
+ *   properties: { status: 503 }
+ * };
+ */
+export interface LogErrorInfo {
+  name: string
+  message: string
+  stack?: string
+  cause?: LogErrorInfo
+  errors?: LogErrorInfo[]
+  properties?: Record<string, unknown>
+}
+
+/**
+ * Handle of a progress notice returned by {@link Log.progress}.
+ *
+ * All methods update the same notice in place. After `succeed()` or `fail()`
+ * the handle is finished and further calls are ignored.
+ *
+ * @example
+ * const progress = log.progress("Re-indexing vault");
+ * files.forEach((file, i) => progress.update(file.path, i / files.length));
+ * progress.succeed(`${files.length} files indexed`);
+ */
+export interface LogProgress {
+  /**
+   * Shows the current step, optionally with the completed fraction
+   * (`0` to `1`, rendered as percentage). Logged as `"debug"`.
+   */
+  update(message: string, fraction?: number): void
+  /**
+   * Marks the operation as succeeded, styled as success notice and logged
+   * as `"info"` with its duration.
+   */
+  succeed(message?: string): void
+  /**
+   * Marks the operation as failed, styled as error notice and logged as
+   * `"error"` with its duration. Accepts any thrown value.
+   */
+  fail(error?: unknown): void
+  /**
+   * Whether `succeed()` or `fail()` has been called.
+   */
+  isDone(): boolean
+}
+
+/**
+ * A button rendered into a notice (see {@link LogNoticeOptions.actions}).
+ * Clicking the button runs the callback and hides the notice.
+ *
+ * @property label
+ *   The text of the button.
+ * @property callback
+ *   Invoked when the button is clicked. Errors, including rejected promises,
+ *   are logged to the console.
+ */
+export interface LogNoticeAction {
+  label: string
+  callback: () => unknown
+}
+
+/**
+ * Configuration of the in-memory buffer of recent log records.
+ *
+ * The buffer captures records independently of the console output, so that
+ * e.g. `debug` records are available for a bug report even though the
+ * console only shows warnings.
+ *
+ * @property size
+ *   The maximum number of records kept. When the buffer is full, the oldest
+ *   record is dropped. `0` disables the buffer. Defaults to `100`.
+ * @property level
+ *   Optional capture threshold. If omitted, the buffer follows the effective
+ *   level of the emitting logger, i.e. captures what the console shows.
+ *
+ * @example
+ * const buffer: LogBufferSettings = { size: 500, level: "debug" };
+ */
+export interface LogBufferSettings {
+  size?: number
+  level?: LogLevel
+}
+
+/**
+ * Options of a {@link LogFileTransport}.
+ *
+ * @property level
+ *   Optional threshold for the archive. If omitted, the archive follows the
+ *   effective level of the emitting logger, i.e. captures what the console shows.
+ * @property dir
+ *   Vault path of the folder that receives the archive files.
+ *   Defaults to `logs` inside the plugin folder, i.e.
+ *   `.obsidian/plugins/<id>/logs`.
+ * @property maxFileSize
+ *   Maximum size of a single archive file in bytes. A file that would grow
+ *   beyond this size is rotated. Defaults to 1 MiB.
+ * @property maxFiles
+ *   Maximum number of archive files kept. The oldest files are removed
+ *   after a rotation. Defaults to `7`.
+ * @property flushIntervalMs
+ *   Delay in milliseconds between a record being written and the batch
+ *   being appended to disk. Defaults to `2000`.
+ * @property redact
+ *   Redacts the errors reported to the console when a write fails, which
+ *   may contain absolute vault paths. Typically `(value) => log.redact(value)`
+ *   (see {@link Log.redact}). Records need no redaction, the logger has
+ *   redacted them already.
+ *
+ * @example
+ * const options: LogFileOptions = { level: "debug", maxFiles: 14, redact: (value) => log.redact(value) };
+ */
+export interface LogFileOptions {
+  level?: LogLevel
+  dir?: string
+  maxFileSize?: number
+  maxFiles?: number
+  flushIntervalMs?: number
+  redact?: (value: unknown) => unknown
+}
+
+/**
+ * Options of a {@link LogNoteTransport}.
+ *
+ * @property path
+ *   Vault path of the Markdown note that receives the activity log,
+ *   e.g. `"Logs/My Plugin.md"`. The note and its folder are created on demand.
+ * @property level
+ *   Optional threshold for the note. If omitted, the note follows the
+ *   effective level of the emitting logger, i.e. captures what the console shows.
+ * @property linkify
+ *   Whether paths of existing vault files are rendered as `[[wikilinks]]`.
+ *   Defaults to `true`.
+ * @property flushIntervalMs
+ *   Delay in milliseconds between a record being written and the batch
+ *   being appended to the note. Defaults to `5000`.
+ * @property redact
+ *   Redacts the errors reported to the console when a write fails,
+ *   see {@link LogFileOptions.redact}.
+ *
+ * @example
+ * const options: LogNoteOptions = { path: "Logs/My Plugin.md", level: "info" };
+ */
+export interface LogNoteOptions {
+  path: string
+  level?: LogLevel
+  linkify?: boolean
+  flushIntervalMs?: number
+  redact?: (value: unknown) => unknown
+}
+
+/**
+ * Options for {@link registerLogView}.
+ *
+ * @property type
+ *   The view type. Must be unique across all plugins.
+ *   Defaults to `"<manifest.id>-log"`.
+ * @property name
+ *   The title of the view tab. Defaults to `"Log"`.
+ * @property icon
+ *   The Lucide icon of the view tab. Defaults to `"scroll-text"`.
+ * @property level
+ *   Optional threshold for the records streamed into the view. If omitted,
+ *   the view follows the effective level of the emitting logger, i.e. shows
+ *   what the console shows.
+ * @property maxRecords
+ *   Maximum number of records kept in the view; the oldest records are
+ *   dropped first. Defaults to `1000`.
+ *
+ * @example
+ * const options: LogViewOptions = { name: "My Plugin log", level: "debug" };
+ */
+export interface LogViewOptions {
+  type?: string
+  name?: string
+  icon?: string
+  level?: LogLevel
+  maxRecords?: number
+}
+
+/**
+ * Filter for {@link Log.getRecent}. All criteria are optional and combined.
+ *
+ * @property level
+ *   Only records at this level or less verbose ones, e.g. `"warn"` returns
+ *   warnings and errors.
+ * @property namespace
+ *   Only records whose namespace matches this pattern (see
+ *   {@link LogSettings.namespaces} for the pattern syntax).
+ *   Records of the root logger never match.
+ * @property since
+ *   Only records created at or after this timestamp (milliseconds since the epoch).
+ * @property text
+ *   Only records whose rendered message, arguments or fields contain this
+ *   text (case-insensitive).
+ * @property limit
+ *   Only the most recent `limit` records.
+ *
+ * @example
+ * const filter: LogRecordFilter = { level: "warn", namespace: "sync:*", text: "timeout", limit: 20 };
+ */
+export interface LogRecordFilter {
+  level?: LogLevel
+  namespace?: string
+  since?: number
+  text?: string
+  limit?: number
+}
+
+/**
+ * Options for attaching a logger to an Obsidian plugin via {@link Log.attach}.
+ *
+ * @property key
+ *   The property of the plugin's data (`data.json`) under which the
+ *   {@link LogSettings} are persisted. Defaults to `"log"`.
+ * @property defaults
+ *   Settings used if no settings have been persisted yet.
+ *   Defaults to `{ loglevel: "info" }`.
+ * @property data
+ *   The plugin's own settings object, i.e. the object it loaded via
+ *   `loadData()` and passes to `saveData()`. If given, the logger settings
+ *   are read from and kept in `data[key]`, so that the plugin and the
+ *   logger share one object and neither overwrites the other's changes.
+ *   {@link Log.save} then writes `data` as a whole.
+ * @property persist
+ *   Called by {@link Log.save} instead of `plugin.saveData()`, typically
+ *   the plugin's own `saveSettings()`. Use it together with `data`.
+ *
+ * @example
+ * const options: LogAttachOptions = { key: "logging", defaults: { loglevel: "warn" } };
+ *
+ * @example
+ * this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+ * this.log      = await Log.attach(this, { data: this.settings, persist: () => this.saveSettings() });
+ */
+export interface LogAttachOptions {
+  key?: string
+  defaults?: LogSettings
+  data?: Record<string, unknown>
+  persist?: () => unknown
+}
+
+/**
+ * Callback registered via {@link Log.onLevelChange}.
+ *
+ * @param level
+ *   The new configured log level.
+ * @param previous
+ *   The log level configured before the change.
+ */
+export type LogLevelListener = (level: LogLevel, previous: LogLevel) => void;
+
+/**
+ * Options for temporarily elevating the log level via {@link Log.elevate}.
+ *
+ * @property durationMs
+ *   Time in milliseconds after which the elevation is reverted
+ *   automatically. Defaults to 15 minutes. `Infinity` disables the
+ *   automatic revert.
+ *
+ * @example
+ * logger.elevate("debug", { durationMs: 5 * 60 * 1000 });
+ */
+export interface LogElevateOptions {
+  durationMs?: number
+}
+
+/**
+ * Options for rendering the logger settings via {@link addLogSettings}.
+ *
+ * @property name
+ *   The name of the log level setting. Defaults to `"Log level"`.
+ * @property desc
+ *   The description of the log level setting.
+ * @property onChange
+ *   Optional callback invoked after a new level has been applied and
+ *   persisted, e.g. to refresh other parts of the settings tab or to
+ *   persist settings of loggers that are not attached to a plugin.
+ * @property noticeName
+ *   The name of the notice level setting. Defaults to `"Notice level"`.
+ * @property noticeDesc
+ *   The description of the notice level setting.
+ * @property onNoticeChange
+ *   Like `onChange`, invoked after a new {@link LogSettings.noticeLevel}
+ *   has been applied and persisted.
+ *
+ * @example
+ * const options: LogSettingsOptions = { onChange: (level) => console.log(level) };
+ */
+export interface LogSettingsOptions {
+  name?: string
+  desc?: string
+  onChange?: (level: LogLevel) => unknown
+  noticeName?: string
+  noticeDesc?: string
+  onNoticeChange?: (level: LogLevel) => unknown
+}
+
+/**
+ * The host plugin of an attached logger, together with the options
+ * used to persist its settings.
+ *
+ * @internal
+ */
+export interface LogHost {
+  readonly plugin: Plugin
+  readonly key: string
+  readonly data?: Record<string, unknown>
+  readonly persist?: () => unknown
+}
+
+/**
+ * A single value of structured log metadata.
+ *
+ * Values are restricted to JSON-compatible primitives so that records stay
+ * machine-readable for every consumer (transports, files, tests).
+ * `undefined` values are accepted for convenience and omitted on output.
+ */
+export type LogFieldValue = string | number | boolean | null | undefined;
+
+/**
+ * Structured key/value metadata attached to a log message via {@link Log.event}.
+ *
+ * @example
+ * const fields: LogFields = { file: "notes/today.md", durationMs: 12 };
+ */
+export type LogFields = Readonly<Record<string, LogFieldValue>>;
+
+/**
+ * A function computing the arguments of a log message, passed as the only
+ * argument of a level method (e.g. {@link Log.debug}). It is called only if
+ * the level is enabled for the console or a transport, so expensive
+ * messages cost nothing while their level is disabled.
+ *
+ * An array result is spread into the message arguments, any other result
+ * is logged as single argument.
+ *
+ * @example
+ * log.debug(() => [ "State:", JSON.stringify(state) ]);
+ */
+export type LogMessageThunk = () => unknown;
+
+/**
+ * A normalized log record as handed to every registered {@link LogTransport}.
+ *
+ * Records are created once per log call, **after** the level of the message
+ * has been resolved, and are shared between all transports. Transports must
+ * therefore treat records as read-only.
+ *
+ * @property level
+ *   The severity of the message. "none" is never used for a record.
+ * @property pluginname
+ *   The name of the plugin or module that emitted the message.
+ * @property namespace
+ *   The namespace of the child logger that emitted the message
+ *   (see {@link Log.child}), e.g. `"sync:remote"`. Absent for the root logger.
+ * @property timestamp
+ *   Creation time of the record in milliseconds since the epoch
+ *   (as returned by `Date.now()`).
+ * @property args
+ *   The raw arguments passed to the log method, without the plugin name prefix.
+ *   For structured calls ({@link Log.event}) this contains only the message.
+ * @property message
+ *   The message of a structured call. Absent for plain log calls.
+ * @property fields
+ *   A snapshot of the key/value metadata of a structured call.
+ *   Absent for plain log calls.
+ *
+ * @example
+ * const record: LogRecord = {
+ *   level: "warn",
+ *   pluginname: "my-plugin",
+ *   timestamp: Date.now(),
+ *   args: [ "Configuration value is deprecated" ]
+ * };
+ */
+export interface LogRecord {
+  readonly level: ExclusiveLogLevel;
+  readonly pluginname: string;
+  readonly namespace?: string;
+  readonly timestamp: number;
+  readonly args: readonly unknown[];
+  readonly message?: string;
+  readonly fields?: LogFields;
+}
+
+/**
+ * A destination for log records, registered via {@link Log.addTransport}.
+ *
+ * Transports are called **in addition** to the console output. Each transport
+ * may define its own level threshold, which is evaluated independently of the
+ * console's {@link LogSettings.loglevel}. This allows e.g. a file transport to
+ * capture `debug` messages while the console only shows warnings.
+ *
+ * @property level
+ *   Optional threshold for this transport. If omitted, the transport follows
+ *   the effective level of the emitting logger, i.e. {@link LogSettings.loglevel}
+ *   or the matching {@link LogSettings.namespaces} rule (including runtime changes).
+ * @property write
+ *   Receives every record whose level passes the transport's threshold.
+ *   Exceptions thrown by `write` are caught and reported to the console;
+ *   they never reach the caller of the log method.
+ * @property dispose
+ *   Optional cleanup hook invoked when the logger releases its transports.
+ *
+ * @example
+ * const captured: LogRecord[] = [];
+ * log.addTransport({
+ *   level: "debug",
+ *   write: (record) => captured.push(record)
+ * });
+ */
+export interface LogTransport {
+  level?: LogLevel;
+  write(record: LogRecord): void;
+  dispose?(): void;
 }
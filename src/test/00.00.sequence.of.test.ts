@@ -2,6 +2,37 @@
 import "./01.01.log.internal.test";
 import "./02.00.log.import.test";
 import "./02.02.log.init.test";
+import "./02.03.log.registry.test";
 import "./03.01.log.public-methods.test";
 import "./04.01.log.notice.test";
-import "./99.00.index.test";
\ No newline at end of file
+import "./04.02.log.notice.options.test";
+import "./04.03.log.notice.level.test";
+import "./04.04.log.notice.flood.test";
+import "./04.05.log.notice.actions.test";
+import "./04.06.log.progress.test";
+import "./04.07.log.notice.history.test";
+import "./04.08.log.errors.test";
+import "./05.01.log.transports.test";
+import "./05.02.log.child.test";
+import "./06.01.log.attach.test";
+import "./07.01.log.settings.test";
+import "./08.01.log.elevate.test";
+import "./09.01.log.level.test";
+import "./09.02.log.lazy.test";
+import "./10.01.log.buffer.test";
+import "./10.02.log.recent.test";
+import "./11.01.log.file.test";
+import "./12.01.log.note.test";
+import "./13.01.log.view.test";
+import "./14.01.log.commands.test";
+import "./15.01.log.history.test";
+import "./16.01.log.redact.test";
+import "./17.01.log.timing.test";
+import "./18.01.log.group.test";
+
+// mocks of "obsidian" registered by the files above apply to the whole
+// sequence, so drop them: all tests share src/test/__mocks__/obsidian.ts.
+// The index test imports the library statically, so it is imported after.
+vi.doUnmock("obsidian");
+
+await import("./99.00.index.test");
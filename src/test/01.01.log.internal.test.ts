@@ -14,11 +14,43 @@ vi.mock("obsidian", () => {
 import { fileURLToPath      } from "node:url";
 import   path                 from "node:path";
 import { DEBUG              } from "../lib/types";
-import { isEnabled, 
+import type { LogSettings   } from "../lib/types";
+import { createLogRecord,
+         evaluateLogThunk,
+         extractSettings,
+         formatArg,
+         formatDay,
+         formatError,
+         formatErrorDetails,
+         formatFields,
+         formatFieldValue,
+         formatLogFileName,
+         formatNotification,
+         formatPrefix,
+         formatRecordText,
+         formatTime,
+         isEnabled, 
          isLogLevel, 
+         isLogThunk,
+         isNoticeEnabled,
+         isLevelLike,
+         isNoticeLevel,
+         isRecord,
+         isSameSettings,
          getLogLevel, 
+         getNoticeClass,
+         matchNamespace,
+         matchRecord,
+         mostVerbose,
+         namespaceSpecificity,
+         normalizeError,
+         parseLogFileName,
+         resolveLevel,
+         resolveNoticeOptions,
          resolvePluginName,
          resolveSettings,
+         resolveTimingOptions,
+         serializeRecord,
          showDebugWarning   } from "../lib/log.internal";
 
 describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
@@ -62,6 +94,101 @@ describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").sp
 
   });
 
+  describe("mostVerbose()", () => {
+
+    test("returns the more verbose level", () => {
+      expect(mostVerbose("warn", "debug")).toBe("debug");
+      expect(mostVerbose("info", "error")).toBe("info");
+      expect(mostVerbose("none", "error")).toBe("error");
+    });
+
+    test("returns the first level if both are equal", () => {
+      expect(mostVerbose("log", "log")).toBe("log");
+    });
+
+  });
+
+  describe("matchNamespace()", () => {
+
+    test("exact patterns match only the identical namespace", () => {
+      expect(matchNamespace("indexer", "indexer")).toBe(true);
+      expect(matchNamespace("indexer", "indexer:queue")).toBe(false);
+      expect(matchNamespace("indexer", "index")).toBe(false);
+    });
+
+    test("'*' matches any sequence including ':'", () => {
+      expect(matchNamespace("sync:*", "sync:remote")).toBe(true);
+      expect(matchNamespace("sync:*", "sync:remote:http")).toBe(true);
+      expect(matchNamespace("sync:*", "sync")).toBe(false);
+      expect(matchNamespace("*:remote", "sync:remote")).toBe(true);
+      expect(matchNamespace("*", "anything")).toBe(true);
+    });
+
+    test("regular expression characters match literally", () => {
+      expect(matchNamespace("ui.view", "ui.view")).toBe(true);
+      expect(matchNamespace("ui.view", "uixview")).toBe(false);
+      expect(matchNamespace("a+(b)", "a+(b)")).toBe(true);
+    });
+
+  });
+
+  describe("namespaceSpecificity()", () => {
+
+    test("exact patterns are the most specific", () => {
+      expect(namespaceSpecificity("sync")).toBe(Infinity);
+    });
+
+    test("wildcard patterns rank by their literal characters", () => {
+      expect(namespaceSpecificity("sync:*")).toBe(5);
+      expect(namespaceSpecificity("sync:remote:*")).toBeGreaterThan(namespaceSpecificity("sync:*"));
+      expect(namespaceSpecificity("*")).toBe(0);
+    });
+
+  });
+
+  describe("resolveLevel()", () => {
+
+    test("returns the global level for the root logger", () => {
+      expect(resolveLevel({ loglevel: "warn", namespaces: { "*": "debug" } })).toBe("warn");
+    });
+
+    test("returns the global level without rules or matches", () => {
+      expect(resolveLevel({ loglevel: "warn" }, "sync")).toBe("warn");
+      expect(resolveLevel({ loglevel: "warn", namespaces: { "indexer": "debug" } }, "sync")).toBe("warn");
+    });
+
+    test("returns the level of a matching rule", () => {
+      const settings: LogSettings = { loglevel: "warn", namespaces: { "sync:*": "debug", "indexer": "error" } };
+
+      expect(resolveLevel(settings, "sync:remote")).toBe("debug");
+      expect(resolveLevel(settings, "indexer")).toBe("error");
+    });
+
+    test("the most specific pattern wins, regardless of order", () => {
+      const settings: LogSettings = { 
+        loglevel: "warn", 
+        namespaces: { "sync:remote": "none", "*": "info", "sync:*": "debug" } 
+      };
+
+      expect(resolveLevel(settings, "sync:remote")).toBe("none");
+      expect(resolveLevel(settings, "sync:local")).toBe("debug");
+      expect(resolveLevel(settings, "ui")).toBe("info");
+    });
+
+    test("the first rule wins on equal specificity", () => {
+      const settings: LogSettings = { loglevel: "warn", namespaces: { "ui:*": "debug", "*:ui": "error" } };
+
+      expect(resolveLevel(settings, "ui:ui")).toBe("debug");
+    });
+
+    test("ignores rules with an invalid level", () => {
+      const settings = { loglevel: "warn", namespaces: { "sync": "verbose", "*": "error" } } as any;
+
+      expect(resolveLevel(settings, "sync")).toBe("error");
+    });
+
+  });
+
   describe("isLogLevel()", () => {
 
     test("returns true for all valid log levels", () => {
@@ -159,7 +286,7 @@ describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").sp
     });
   });
 
-  describe("resolvePluginName()", () => {
+  describe("resolveSettings()", () => {
     test("creates default settings if none are provided", () => {
       const settings = resolveSettings();
 
@@ -175,21 +302,498 @@ describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").sp
       expect(result.loglevel).toBe("debug");     // unverändert
     });
 
-    test("mutates provided settings if loglevel is invalid", () => {
-      const input = { loglevel: "INVALID" as any };
+    test("returns a corrected copy if loglevel is invalid", () => {
+      const input = { loglevel: "INVALID" as any, namespaces: { "sync": "debug" as const } };
 
       const result = resolveSettings(input);
 
-      expect(result).toBe(input);                // Mutation, kein neues Objekt
+      expect(result).not.toBe(input);            // Kopie, keine Mutation
       expect(result.loglevel).toBe("info");      // Fallback greift
+      expect(result.namespaces).toEqual({ "sync": "debug" });
     });
 
-    test("does not create a new object when mutating invalid settings", () => {
+    test("does not mutate invalid settings", () => {
       const input = { loglevel: "INVALID" as any };
 
-      const result = resolveSettings(input);
+      resolveSettings(input);
+
+      expect(input.loglevel).toBe("INVALID");
+    });
+  });
+
+  describe("getNoticeClass()", () => {
+    test("maps levels to the notice color classes", () => {
+      expect(getNoticeClass("error")).toBe("notice-error");
+      expect(getNoticeClass("warn")).toBe("notice-warn");
+      expect(getNoticeClass("info")).toBe("notice-info");
+      expect(getNoticeClass("success")).toBe("notice-success");
+      expect(getNoticeClass("log")).toBe("");
+    });
+  });
+
+  describe("isNoticeEnabled()", () => {
+    test("never shows debug notices", () => {
+      expect(isNoticeEnabled("debug")).toBe(false);
+      expect(isNoticeEnabled("debug", "info")).toBe(false);
+    });
+
+    test("shows all other notices without a valid threshold", () => {
+      expect(isNoticeEnabled("info")).toBe(true);
+      expect(isNoticeEnabled("success", "verbose" as any)).toBe(true);
+    });
+
+    test("compares the console level of the notice with the threshold", () => {
+      expect(isNoticeEnabled("error", "warn")).toBe(true);
+      expect(isNoticeEnabled("info", "warn")).toBe(false);
+      expect(isNoticeEnabled("success", "warn")).toBe(false);
+      expect(isNoticeEnabled("success", "debug")).toBe(true);
+      expect(isNoticeEnabled("error", "none")).toBe(false);
+    });
+  });
+
+  describe("resolveNoticeOptions()", () => {
+    const settings: LogSettings = {
+      loglevel: "info",
+      notices:  { error: { persistent: true }, warn: { duration: 8000 }, info: { silent: true } },
+    };
+
+    test("falls back to Obsidian's default without options", () => {
+      expect(resolveNoticeOptions({ loglevel: "info" }, "info")).toEqual({ duration: undefined, silent: false });
+    });
+
+    test("uses the per-level defaults", () => {
+      expect(resolveNoticeOptions(settings, "error")).toEqual({ duration: 0, silent: false });
+      expect(resolveNoticeOptions(settings, "warn")).toEqual({ duration: 8000, silent: false });
+      expect(resolveNoticeOptions(settings, "info")).toEqual({ duration: undefined, silent: true });
+    });
+
+    test("options of the call take precedence", () => {
+      expect(resolveNoticeOptions(settings, "error", { duration: 1000 })).toEqual({ duration: 1000, silent: false });
+      expect(resolveNoticeOptions(settings, "info", { silent: false })).toEqual({ duration: undefined, silent: false });
+      expect(resolveNoticeOptions(settings, "warn", { persistent: true, duration: 5 })).toEqual({ duration: 0, silent: false });
+    });
+
+    test("ignores invalid durations", () => {
+      expect(resolveNoticeOptions(settings, "warn", { duration: -1 }).duration).toBe(8000);
+      expect(resolveNoticeOptions(settings, "log", { duration: NaN }).duration).toBeUndefined();
+    });
+  });
+
+  describe("resolveTimingOptions()", () => {
+    test("defaults to debug without a threshold", () => {
+      expect(resolveTimingOptions({ loglevel: "info" })).toEqual({ level: "debug", slowMs: undefined });
+    });
+
+    test("options of the call take precedence over the settings", () => {
+      const settings: LogSettings = { loglevel: "info", timing: { level: "log", slowMs: 250 } };
+
+      expect(resolveTimingOptions(settings)).toEqual({ level: "log", slowMs: 250 });
+      expect(resolveTimingOptions(settings, { level: "info", slowMs: 0 })).toEqual({ level: "info", slowMs: 0 });
+    });
+
+    test("ignores invalid levels and thresholds", () => {
+      const settings: LogSettings = { loglevel: "info", timing: { slowMs: 250 } };
+
+      expect(resolveTimingOptions(settings, { level: "none" as any, slowMs: -1 })).toEqual({ level: "debug", slowMs: 250 });
+      expect(resolveTimingOptions(settings, { level: "verbose" as any, slowMs: NaN })).toEqual({ level: "debug", slowMs: 250 });
+    });
+  });
+
+  describe("isRecord()", () => {
+    test("returns true for plain objects", () => {
+      expect(isRecord({})).toBe(true);
+      expect(isRecord({ a: 1 })).toBe(true);
+    });
+
+    test("returns false for null, arrays and primitives", () => {
+      expect(isRecord(null)).toBe(false);
+      expect(isRecord([])).toBe(false);
+      expect(isRecord("log")).toBe(false);
+      expect(isRecord(undefined)).toBe(false);
+    });
+  });
+
+  describe("extractSettings()", () => {
+    test("returns the persisted settings object", () => {
+      const stored = { loglevel: "debug" };
+
+      const result = extractSettings({ other: true, log: stored }, "log");
+
+      expect(result).toBe(stored);
+    });
+
+    test("uses the given key", () => {
+      expect(extractSettings({ logging: { loglevel: "warn" } }, "logging")).toEqual({ loglevel: "warn" });
+    });
+
+    test("falls back to a copy of the defaults", () => {
+      const defaults: LogSettings = { loglevel: "warn" };
+
+      const result = extractSettings(null, "log", defaults);
+
+      expect(result).toEqual({ loglevel: "warn" });
+      expect(result).not.toBe(defaults);
+    });
+
+    test("falls back to info without defaults", () => {
+      expect(extractSettings({ log: "debug" }, "log")).toEqual({ loglevel: "info" });
+    });
+
+    test("validates the persisted loglevel", () => {
+      expect(extractSettings({ log: { loglevel: "verbose" } }, "log").loglevel).toBe("info");
+    });
+  });
+
+  describe("isSameSettings()", () => {
+    test("returns true for the same reference", () => {
+      const settings: LogSettings = { loglevel: "info" };
+      expect(isSameSettings(settings, settings)).toBe(true);
+    });
+
+    test("returns true for equal settings", () => {
+      expect(isSameSettings({ loglevel: "warn", namespaces: { "sync:*": "debug" } },
+                            { loglevel: "warn", namespaces: { "sync:*": "debug" } })).toBe(true);
+    });
+
+    test("returns false for different settings", () => {
+      expect(isSameSettings({ loglevel: "warn" }, { loglevel: "info" })).toBe(false);
+      expect(isSameSettings({ loglevel: "warn" }, { loglevel: "warn", namespaces: { "ui": "debug" } })).toBe(false);
+    });
+  });
+
+  describe("createLogRecord()", () => {
+    test("creates a record with level, pluginname, timestamp and args", () => {
+      const before = Date.now();
+      const args   = [ "hello", { a: 1 } ];
+
+      const record = createLogRecord("warn", "MyPlugin", undefined, args);
+
+      expect(record.level).toBe("warn");
+      expect(record.pluginname).toBe("MyPlugin");
+      expect(record.args).toEqual([ "hello", { a: 1 } ]);
+      expect(record.timestamp).toBeGreaterThanOrEqual(before);
+      expect(record.timestamp).toBeLessThanOrEqual(Date.now());
+      expect(record).not.toHaveProperty("namespace");
+      expect(record).not.toHaveProperty("message");
+      expect(record).not.toHaveProperty("fields");
+    });
+
+    test("adds message and a snapshot of fields for structured calls", () => {
+      const fields = { file: "a.md", durationMs: 12 };
+
+      const record = createLogRecord("info", "MyPlugin", undefined, [ "Indexed" ], fields);
+      fields.durationMs = 99;
+
+      expect(record.message).toBe("Indexed");
+      expect(record.fields).toEqual({ file: "a.md", durationMs: 12 });
+      expect(record.args).toEqual([ "Indexed" ]);
+    });
+
+    test("adds the namespace of child loggers", () => {
+      const record = createLogRecord("debug", "MyPlugin", "sync:remote", [ "connected" ]);
+
+      expect(record.namespace).toBe("sync:remote");
+    });
+  });
+
+  describe("isLogThunk()", () => {
+    test("accepts a single function only", () => {
+      expect(isLogThunk([ () => "message" ])).toBe(true);
+      expect(isLogThunk([ "Handler:", () => {} ])).toBe(false);
+      expect(isLogThunk([ "message" ])).toBe(false);
+      expect(isLogThunk([])).toBe(false);
+    });
+  });
+
+  describe("evaluateLogThunk()", () => {
+    test("uses an array result as arguments", () => {
+      expect(evaluateLogThunk(() => [ "Indexed", 12 ])).toEqual([ "Indexed", 12 ]);
+    });
+
+    test("wraps any other result as single argument", () => {
+      expect(evaluateLogThunk(() => "Indexed")).toEqual([ "Indexed" ]);
+      expect(evaluateLogThunk(() => undefined)).toEqual([ undefined ]);
+    });
+
+    test("reports a thrown error in place of the message", () => {
+      const error = new Error("not ready");
+      expect(evaluateLogThunk(() => { throw error; })).toEqual([ "Failed to evaluate log message:", error ]);
+    });
+  });
+
+  describe("formatPrefix()", () => {
+    test("returns the plugin name for the root logger", () => {
+      expect(formatPrefix("my-plugin")).toBe("my-plugin");
+    });
+
+    test("appends the namespace of child loggers", () => {
+      expect(formatPrefix("my-plugin", "sync:remote")).toBe("my-plugin:sync:remote");
+    });
+  });
+
+  describe("formatFieldValue()", () => {
+    test("renders bare strings verbatim", () => {
+      expect(formatFieldValue("notes/a.md")).toBe("notes/a.md");
+    });
+
+    test("quotes strings containing whitespace, quotes or '='", () => {
+      expect(formatFieldValue("my note")).toBe('"my note"');
+      expect(formatFieldValue('say "hi"')).toBe('"say \\"hi\\""');
+      expect(formatFieldValue("a=b")).toBe('"a=b"');
+    });
+
+    test("quotes empty strings", () => {
+      expect(formatFieldValue("")).toBe('""');
+    });
+
+    test("renders numbers, booleans and null via String()", () => {
+      expect(formatFieldValue(12)).toBe("12");
+      expect(formatFieldValue(false)).toBe("false");
+      expect(formatFieldValue(null)).toBe("null");
+    });
+  });
+
+  describe("formatFields()", () => {
+    test("renders fields as key=value pairs in insertion order", () => {
+      expect(formatFields({ file: "a.md", durationMs: 12, ok: true }))
+        .toBe("file=a.md durationMs=12 ok=true");
+    });
+
+    test("omits undefined values", () => {
+      expect(formatFields({ file: undefined, durationMs: 12 })).toBe("durationMs=12");
+    });
+
+    test("returns an empty string for empty fields", () => {
+      expect(formatFields({})).toBe("");
+    });
+  });
+
+  describe("formatDay()", () => {
+    test("formats the local calendar day", () => {
+      expect(formatDay(new Date(2026, 0, 5, 23, 59).getTime())).toBe("2026-01-05");
+    });
+  });
+
+  describe("formatTime()", () => {
+    test("formats the local time of day", () => {
+      expect(formatTime(new Date(2026, 0, 5, 9, 5, 0).getTime())).toBe("09:05:00");
+    });
+  });
+
+  describe("formatArg()", () => {
+    test("renders strings verbatim and errors as name: message", () => {
+      expect(formatArg("plain text")).toBe("plain text");
+      expect(formatArg(new TypeError("bad input"))).toBe("TypeError: bad input");
+    });
+
+    test("renders objects as JSON and other values via String()", () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+
+      expect(formatArg({ id: 1 })).toBe('{"id":1}');
+      expect(formatArg(circular)).toBe("[object Object]");
+      expect(formatArg(42)).toBe("42");
+      expect(formatArg(undefined)).toBe("undefined");
+    });
+  });
+
+  describe("isNoticeLevel()", () => {
+    test("accepts log levels except none, and success", () => {
+      for (const level of [ "error", "warn", "debug", "log", "info", "success" ]) {
+        expect(isNoticeLevel(level)).toBe(true);
+      }
+    });
+
+    test("rejects none and other values", () => {
+      for (const value of [ "none", "verbose", "", undefined, new Error("x") ]) {
+        expect(isNoticeLevel(value)).toBe(false);
+      }
+    });
+  });
+
+  describe("isLevelLike()", () => {
+    test("accepts mistyped levels", () => {
+      for (const value of [ "Warn", "ERROR", " info", "Success", "none", "NONE" ]) {
+        expect(isLevelLike(value)).toBe(true);
+      }
+    });
+
+    test("rejects notice levels, other strings and non-strings", () => {
+      for (const value of [ "warn", "success", "offline", "ENOENT", "", undefined, new Error("warn") ]) {
+        expect(isLevelLike(value)).toBe(false);
+      }
+    });
+  });
+
+  describe("normalizeError()", () => {
+    test("keeps name, message and stack of errors", () => {
+      const error = new TypeError("bad input");
+
+      expect(normalizeError(error)).toEqual({ name: "TypeError", message: "bad input", stack: error.stack });
+    });
+
+    test("normalizes the cause chain and aggregated errors", () => {
+      const root  = new Error("Failed to fetch");
+      const error = new AggregateError([ new Error("a", { cause: root }), "b" ], "Sync failed", { cause: "offline" });
+
+      const info = normalizeError(error);
+      expect(info.name).toBe("AggregateError");
+      expect(info.cause).toEqual({ name: "Error", message: "offline" });
+      expect(info.errors).toMatchObject([
+        { name: "Error", message: "a", cause: { name: "Error", message: "Failed to fetch" } },
+        { name: "Error", message: "b" },
+      ]);
+    });
+
+    test("cuts circular cause chains", () => {
+      const a: any = new Error("a");
+      const b: any = new Error("b", { cause: a });
+      a.cause = b;
+
+      const info = normalizeError(a);
+      expect(info.cause?.message).toBe("b");
+      expect(info.cause?.cause).toBeUndefined();
+    });
+
+    test("keeps custom own properties as JSON values", () => {
+      const error = Object.assign(new Error("Not found"), { status: 404, size: BigInt(1), retry: () => {} });
+
+      expect(normalizeError(error).properties).toEqual({ status: 404, size: "1" });
+    });
+
+    test("normalizes DOMExceptions and error-like objects", () => {
+      expect(normalizeError(new DOMException("The user aborted a request.", "AbortError")))
+        .toMatchObject({ name: "AbortError", message: "The user aborted a request." });
+      expect(normalizeError({ message: "Rate limited", code: 429 }))
+        .toEqual({ name: "Error", message: "Rate limited", properties: { code: 429 } });
+    });
+
+    test("wraps non-Error throwables", () => {
+      expect(normalizeError("timeout")).toEqual({ name: "Error", message: "timeout" });
+      expect(normalizeError(42)).toEqual({ name: "Error", message: "42" });
+      expect(normalizeError({ id: 1 })).toEqual({ name: "Error", message: '{"id":1}' });
+      expect(normalizeError(null)).toEqual({ name: "Error", message: "null" });
+    });
+  });
+
+  describe("formatError()", () => {
+    test("renders properties, aggregated errors and causes indented", () => {
+      const text = formatError({
+        name: "AggregateError", message: "Sync failed", properties: { status: 503 },
+        errors: [ { name: "Error", message: "a", stack: "Error: a\n    at x" } ],
+        cause: { name: "TypeError", message: "Failed to fetch", cause: { name: "Error", message: "offline" } },
+      });
+
+      expect(text).toBe([
+        "AggregateError: Sync failed",
+        'Properties: {"status":503}',
+        "[1] Error: a",
+        "      at x",
+        "Caused by: TypeError: Failed to fetch",
+        "  Caused by: Error: offline",
+      ].join("\n"));
+    });
+  });
+
+  describe("formatErrorDetails()", () => {
+    test("appends the stack of the error to the message", () => {
+      const error = new Error("offline");
+
+      expect(formatErrorDetails("Sync failed", error)).toBe(`Sync failed\n\n${error.stack}`);
+    });
+
+    test("falls back to name: message without a stack", () => {
+      const error = new TypeError("bad input");
+      error.stack = undefined;
+
+      expect(formatErrorDetails("Import failed", error)).toBe("Import failed\n\nTypeError: bad input");
+    });
+  });
+
+  describe("formatNotification()", () => {
+    test("renders time, level, namespace and message", () => {
+      expect(formatNotification({ level: "warn", message: "Slow sync", timestamp: 0, namespace: "sync" }))
+        .toBe("1970-01-01T00:00:00.000Z WARN sync: Slow sync");
+      expect(formatNotification({ level: "success", message: "Saved", timestamp: 0 }))
+        .toBe("1970-01-01T00:00:00.000Z SUCCESS Saved");
+    });
+
+    test("appends the details of an attached error", () => {
+      const error = new Error("offline");
+
+      expect(formatNotification({ level: "error", message: "Sync failed", timestamp: 0, error }))
+        .toBe(`1970-01-01T00:00:00.000Z ERROR Sync failed\n\n${error.stack}`);
+    });
+  });
+
+  describe("formatRecordText()", () => {
+    test("renders the arguments of plain records", () => {
+      expect(formatRecordText(createLogRecord("error", "p", undefined, [ new Error("boom"), { id: 1 } ])))
+        .toBe('Error: boom {"id":1}');
+    });
+
+    test("renders message and fields of structured records", () => {
+      expect(formatRecordText(createLogRecord("info", "p", undefined, [ "Synced" ], { files: 3 }))).toBe("Synced files=3");
+      expect(formatRecordText(createLogRecord("info", "p", undefined, [ "Synced" ], {}))).toBe("Synced");
+    });
+  });
+
+  describe("matchRecord()", () => {
+    const record = createLogRecord("warn", "p", "sync:remote", [ "Request TIMEOUT" ], { ms: 900 });
+
+    test("matches all criteria combined", () => {
+      expect(matchRecord(record, {})).toBe(true);
+      expect(matchRecord(record, { level: "warn", namespace: "sync:*", since: record.timestamp, text: "timeout" })).toBe(true);
+      expect(matchRecord(record, { text: "ms=900" })).toBe(true);
+    });
+
+    test("rejects records failing any criterion", () => {
+      expect(matchRecord(record, { level: "error" })).toBe(false);
+      expect(matchRecord(record, { namespace: "ui" })).toBe(false);
+      expect(matchRecord(record, { since: record.timestamp + 1 })).toBe(false);
+      expect(matchRecord(record, { text: "success" })).toBe(false);
+    });
+  });
+
+  describe("formatLogFileName() / parseLogFileName()", () => {
+    test("omits the rotation index for the first file of a day", () => {
+      expect(formatLogFileName("2026-01-31", 0)).toBe("2026-01-31.jsonl");
+      expect(formatLogFileName("2026-01-31", 2)).toBe("2026-01-31.2.jsonl");
+    });
+
+    test("parses file names and paths", () => {
+      expect(parseLogFileName("2026-01-31.jsonl")).toEqual({ day: "2026-01-31", index: 0 });
+      expect(parseLogFileName("logs/2026-01-31.12.jsonl")).toEqual({ day: "2026-01-31", index: 12 });
+    });
+
+    test("rejects other files", () => {
+      expect(parseLogFileName("notes.jsonl")).toBeUndefined();
+      expect(parseLogFileName("2026-01-31.json")).toBeUndefined();
+    });
+  });
+
+  describe("serializeRecord()", () => {
+    test("adds an ISO time and keeps the record's properties", () => {
+      const line = serializeRecord({ level: "warn", pluginname: "p", namespace: "ui", timestamp: 0, args: [ "a", 1 ] });
+
+      expect(JSON.parse(line)).toEqual({
+        time: "1970-01-01T00:00:00.000Z", level: "warn", pluginname: "p", namespace: "ui", timestamp: 0, args: [ "a", 1 ]
+      });
+      expect(line).not.toContain("\n");
+    });
+
+    test("converts values JSON cannot represent", () => {
+      const line = JSON.parse(serializeRecord({ level: "info", pluginname: "p", timestamp: 0, args: [ BigInt(10), () => 1 ] }));
+
+      expect(line.args[0]).toBe("10");
+      expect(typeof line.args[1]).toBe("string");
+    });
+
+    test("normalizes errors including their cause", () => {
+      const error = new Error("Sync failed", { cause: new TypeError("Failed to fetch") });
+      const line  = JSON.parse(serializeRecord({ level: "error", pluginname: "p", timestamp: 0, args: [ error ] }));
 
-      expect(result).toBe(input);
+      expect(line.args[0]).toMatchObject({ name: "Error", message: "Sync failed", cause: { name: "TypeError", message: "Failed to fetch" } });
     });
   });
 
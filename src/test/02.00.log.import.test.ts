@@ -38,6 +38,13 @@ describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").sp
     expect(typeof Log.init).toBe("function");
   });
 
+  test("Log exposes static registry methods", () => {
+    expect(typeof Log.reinit).toBe("function");
+    expect(typeof Log.get).toBe("function");
+    expect(typeof Log.reset).toBe("function");
+    expect(typeof Log.attach).toBe("function");
+  });
+
   test("Log prototype exposes public logging methods", () => {
     const proto = Log.prototype;
 
@@ -47,5 +54,33 @@ describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").sp
     expect(typeof proto.warn).toBe("function");
     expect(typeof proto.error).toBe("function");
     expect(typeof proto.notice).toBe("function");
+    expect(typeof proto.progress).toBe("function");
+    expect(typeof proto.event).toBe("function");
+    expect(typeof proto.child).toBe("function");
+    expect(typeof proto.dispose).toBe("function");
+    expect(typeof proto.save).toBe("function");
+    expect(typeof proto.getSettings).toBe("function");
+    expect(typeof proto.redact).toBe("function");
+    expect(typeof proto.getName).toBe("function");
+    expect(typeof proto.setViewer).toBe("function");
+    expect(typeof proto.elevate).toBe("function");
+    expect(typeof proto.restore).toBe("function");
+    expect(typeof proto.isElevated).toBe("function");
+    expect(typeof proto.getLevel).toBe("function");
+    expect(typeof proto.setLevel).toBe("function");
+    expect(typeof proto.isLevelEnabled).toBe("function");
+    expect(typeof proto.time).toBe("function");
+    expect(typeof proto.timeEnd).toBe("function");
+    expect(typeof proto.measure).toBe("function");
+    expect(typeof proto.group).toBe("function");
+    expect(typeof proto.groupCollapsed).toBe("function");
+    expect(typeof proto.onLevelChange).toBe("function");
+    expect(typeof proto.getRecent).toBe("function");
+    expect(typeof proto.clear).toBe("function");
+    expect(typeof proto.dump).toBe("function");
+    expect(typeof proto.getNotifications).toBe("function");
+    expect(typeof proto.clearNotifications).toBe("function");
+    expect(typeof proto.addTransport).toBe("function");
+    expect(typeof proto.removeTransport).toBe("function");
   });
 });
@@ -5,6 +5,7 @@ vi.resetModules()
 
 const infoSpy  = vi.spyOn(console, "info" ).mockImplementation(() => {});
 const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+const warnSpy  = vi.spyOn(console, "warn" ).mockImplementation(() => {});
 
 // Mocks vor dem Import
 vi.mock("obsidian", () => {
@@ -24,31 +25,47 @@ describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").sp
   afterAll(() => {
     infoSpy.mockRestore();
     debugSpy.mockRestore();
+    warnSpy.mockRestore();
   });
 
-  // Initiale Singleton-Instanz (wird für alle Tests verwendet)
+  // Initiale Instanz von plugin-A (wird für alle Tests verwendet)
   const settings   = { loglevel: "log" };
   const initialLog = Log.init("plugin-A", settings as LogSettings);
 
-  test("Log.init returns the same singleton instance", () => {
-    const secondLog = Log.init("plugin-B", { loglevel: "debug" });
+  test("Log.init returns the same instance for the same pluginname", () => {
+    const secondLog = Log.init("plugin-A", { loglevel: "log" });
     expect(secondLog).toBe(initialLog);
   });
 
-  test("pluginname is taken from first init", () => {
-    const log = Log.init("ignored-pluginname", { loglevel: "info" });
+  test("Log.init returns a different instance for a different pluginname", () => {
+    const otherLog = Log.init("plugin-B", { loglevel: "debug" });
+    expect(otherLog).not.toBe(initialLog);
+  });
+
+  test("Log.init without pluginname returns the first registered instance", () => {
+    const log = Log.init();
     log.debug("hello");
 
     // pluginname stammt aus der initialen Instanz
+    expect(log).toBe(initialLog);
     expect(debugSpy).toHaveBeenCalledWith("plugin-A", "hello");
 
     debugSpy.mockRestore();
   });
 
+  test("Log.init warns when called again with conflicting settings", () => {
+    warnSpy.mockClear();
+
+    const log = Log.init("plugin-A", { loglevel: "error" });
+
+    expect(log).toBe(initialLog);
+    expect(warnSpy).toHaveBeenCalledWith("plugin-A", expect.stringContaining("Log.reinit()"));
+  });
+
   test("loglevel controls which messages are emitted", () => {
-    const log = Log.init("level-test", { loglevel: "info" }); // wird ignoriert, Singleton bereits init
+    const log = Log.init("plugin-A", { loglevel: "info" }); // wird ignoriert, bereits init
 
-    // Singleton existiert bereits → loglevel bleibt 'log' aus erstem Init
+    // Instanz existiert bereits → loglevel bleibt 'log' aus erstem Init
     log.debug("debug-msg"); // unter log → erlaubt
     expect(debugSpy).toHaveBeenCalledWith("plugin-A", "debug-msg");
 
@@ -59,10 +76,10 @@ describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").sp
     infoSpy.mockRestore();
   });
 
-  test("invalid loglevel on subsequent init does not change singleton", () => {
-    const log = Log.init("fallback-test", { loglevel: "INVALID" as any });
+  test("invalid loglevel on subsequent init does not change the instance", () => {
+    const log = Log.init("plugin-A", { loglevel: "INVALID" as any });
 
-    // Singleton existiert bereits → loglevel bleibt 'log' aus erstem Init
+    // Instanz existiert bereits → loglevel bleibt 'log' aus erstem Init
     log.debug("other-debug-msg"); // unter log → erlaubt
     expect(debugSpy).toHaveBeenCalledWith("plugin-A", "other-debug-msg");
 
@@ -0,0 +1,153 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  test("Log.get returns registered loggers without creating new ones", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    expect(Log.get()).toBeUndefined();
+    expect(Log.get("plugin-A")).toBeUndefined();
+
+    const first  = Log.init("plugin-A", { loglevel: "warn" });
+    const second = Log.init("plugin-B", { loglevel: "warn" });
+
+    expect(Log.get("plugin-A")).toBe(first);
+    expect(Log.get("plugin-B")).toBe(second);
+    expect(Log.get()).toBe(first);
+    expect(Log.get("plugin-C")).toBeUndefined();
+  });
+
+  test("Log.init does not warn for equal settings", async () => {
+    vi.resetModules();
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+
+    expect(Log.init("plugin", { loglevel: "warn" })).toBe(log);
+    expect(Log.init("plugin")).toBe(log);
+    expect(warnSpy).not.toHaveBeenCalled();
+
+    warnSpy.mockRestore();
+  });
+
+  test("Log.reinit replaces the settings of the same instance", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const warnSpy  = vi.spyOn(console, "warn" ).mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log   = Log.init("plugin", { loglevel: "warn" });
+    const child = log.child("sync");
+    const write = vi.fn();
+    log.addTransport({ write });
+
+    const again = Log.reinit("plugin", { loglevel: "debug" });
+
+    expect(again).toBe(log);
+    expect(warnSpy).not.toHaveBeenCalledWith("plugin", expect.stringContaining("Log.reinit()"));
+
+    child.debug("now visible");
+    expect(debugSpy).toHaveBeenCalledWith("plugin:sync", "now visible");
+    expect(write).toHaveBeenCalledOnce();
+
+    debugSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  test("Log.reinit falls back to defaults for invalid settings", async () => {
+    vi.resetModules();
+
+    const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "error" });
+    Log.reinit("plugin", { loglevel: "INVALID" as any });
+
+    log.info("visible");
+    expect(infoSpy).toHaveBeenCalledWith("plugin", "visible");
+
+    infoSpy.mockRestore();
+  });
+
+  test("Log.reinit creates a logger if none is registered", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.reinit("plugin", { loglevel: "warn" });
+
+    expect(Log.get("plugin")).toBe(log);
+  });
+
+  test("dispose() releases transports and unregisters the logger", async () => {
+    vi.resetModules();
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const transport = { write: vi.fn(), dispose: vi.fn() };
+    const log       = Log.init("plugin", { loglevel: "warn" });
+    log.addTransport(transport);
+
+    log.child("sync").dispose();
+
+    expect(transport.dispose).toHaveBeenCalledOnce();
+    expect(Log.get("plugin")).toBeUndefined();
+
+    log.warn("still usable");
+    expect(warnSpy).toHaveBeenCalledWith("plugin", "still usable");
+    expect(transport.write).not.toHaveBeenCalled();
+
+    const fresh = Log.init("plugin", { loglevel: "debug" });
+    expect(fresh).not.toBe(log);
+
+    warnSpy.mockRestore();
+  });
+
+  test("dispose() reports failing dispose hooks and continues", async () => {
+    vi.resetModules();
+
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const failure = new Error("locked");
+    const healthy = { write: vi.fn(), dispose: vi.fn() };
+    const log     = Log.init("plugin", { loglevel: "warn" });
+    log.addTransport({ write: vi.fn(), dispose: () => { throw failure; } });
+    log.addTransport(healthy);
+
+    expect(() => log.dispose()).not.toThrow();
+    expect(healthy.dispose).toHaveBeenCalledOnce();
+    expect(errorSpy).toHaveBeenCalledWith("plugin", "Log transport failed to dispose:", failure);
+
+    errorSpy.mockRestore();
+  });
+
+  test("Log.reset disposes all loggers and clears the registry", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const first  = { write: vi.fn(), dispose: vi.fn() };
+    const second = { write: vi.fn(), dispose: vi.fn() };
+    Log.init("plugin-A").addTransport(first);
+    Log.init("plugin-B").addTransport(second);
+
+    Log.reset();
+
+    expect(first.dispose).toHaveBeenCalledOnce();
+    expect(second.dispose).toHaveBeenCalledOnce();
+    expect(Log.get()).toBeUndefined();
+  });
+});
@@ -159,4 +159,68 @@ describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").sp
     errorSpy.mockRestore();
   });
 
+  test("event() logs message and rendered fields via the matching console method", async () => {
+    vi.resetModules();
+
+    const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "info" });
+    log.event("info", "Note indexed", { file: "daily/2026-01-01.md", durationMs: 12 });
+
+    expect(infoSpy).toHaveBeenCalledWith("plugin", "Note indexed", "file=daily/2026-01-01.md durationMs=12");
+
+    infoSpy.mockRestore();
+  });
+
+  test("event() without fields logs the message only", async () => {
+    vi.resetModules();
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.event("warn", "careful");
+
+    expect(warnSpy).toHaveBeenCalledWith("plugin", "careful");
+
+    warnSpy.mockRestore();
+  });
+
+  test("event() respects the loglevel", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.event("debug", "dbg", { a: 1 });
+
+    expect(debugSpy).not.toHaveBeenCalled();
+
+    debugSpy.mockRestore();
+  });
+
+  test("event() hands message and fields to transports", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const write = vi.fn();
+    const log   = Log.init("plugin", { loglevel: "none" });
+    log.addTransport({ level: "info", write });
+
+    log.event("log", "Sync finished", { files: 3, remote: "origin" });
+
+    expect(write.mock.calls[0][0]).toMatchObject({
+      level:   "log",
+      message: "Sync finished",
+      fields:  { files: 3, remote: "origin" },
+      args:    [ "Sync finished" ]
+    });
+  });
+
 });
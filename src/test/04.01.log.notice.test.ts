@@ -167,10 +167,10 @@ describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").sp
     warnSpy.mockRestore();
   });
 
-  test("notice() with unknown level uses default and shows info notice", async () => {
+  test("notice() with a non-level string treats it as thrown error", async () => {
     vi.resetModules();
 
-    const logSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+    const logSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
     vi.mock("obsidian", () => ({
       Notice: vi.fn(function (message: string) {
@@ -183,13 +183,14 @@ describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").sp
     (Notice as any).mockClear();
 
     const log = Log.init("plugin", { loglevel: "info" });
-    // level ist absichtlich falsch / undefiniert
-    log.notice("default case test", "unknown" as any);
+    // a caught string, e.g. from a rejected promise
+    log.notice("default case test", "unknown");
 
-    expect(logSpy).toHaveBeenCalledWith("plugin", "default case test");
+    expect(logSpy).toHaveBeenCalledWith("plugin", "default case test", "unknown");
 
     const noticeInstance = (Notice as any).mock.instances.at(-1);
-    expect(noticeInstance.messageEl.addClass).toHaveBeenCalled();
+    expect(noticeInstance.messageEl.addClass).toHaveBeenCalledWith("notice-error");
+    expect((Notice as any).mock.calls.at(-1)[0]).toBe("default case test\r\nError: unknown");
 
     logSpy.mockRestore();
   });
@@ -0,0 +1,105 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  test("notice() keeps Obsidian's default duration without options", async () => {
+    vi.resetModules();
+
+    const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    const { Log    } = await import("../lib/log");
+    const { Notice } = await import("obsidian");
+    (Notice as any).mockClear();
+
+    const log = Log.init("plugin", { loglevel: "info" });
+    log.notice("hello");
+
+    expect((Notice as any).mock.calls.at(-1)).toEqual([ "hello", undefined ]);
+
+    infoSpy.mockRestore();
+  });
+
+  test("notice() passes the duration of the call", async () => {
+    vi.resetModules();
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { Log    } = await import("../lib/log");
+    const { Notice } = await import("obsidian");
+    (Notice as any).mockClear();
+
+    const log = Log.init("plugin", { loglevel: "info" });
+    log.notice("short", "warn", { duration: 1500 });
+
+    expect((Notice as any).mock.calls.at(-1)).toEqual([ "short", 1500 ]);
+
+    warnSpy.mockRestore();
+  });
+
+  test("persistent notices stay until dismissed", async () => {
+    vi.resetModules();
+
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { Log    } = await import("../lib/log");
+    const { Notice } = await import("obsidian");
+    (Notice as any).mockClear();
+
+    const log = Log.init("plugin", { loglevel: "info" });
+    log.notice("Sync failed", new Error("offline"), { persistent: true, duration: 1500 });
+
+    expect((Notice as any).mock.calls.at(-1)).toEqual([ "Sync failed\r\nError: offline", 0 ]);
+
+    errorSpy.mockRestore();
+  });
+
+  test("silent notices are logged without a notice", async () => {
+    vi.resetModules();
+
+    const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    const { Log    } = await import("../lib/log");
+    const { Notice } = await import("obsidian");
+    (Notice as any).mockClear();
+
+    const log = Log.init("plugin", { loglevel: "info" });
+    log.notice("Cache rebuilt", "info", { silent: true });
+
+    expect(infoSpy).toHaveBeenCalledWith("plugin", "Cache rebuilt");
+    expect(Notice).not.toHaveBeenCalled();
+
+    infoSpy.mockRestore();
+  });
+
+  test("per-level defaults from the settings apply unless overridden by the call", async () => {
+    vi.resetModules();
+
+    const infoSpy  = vi.spyOn(console, "info").mockImplementation(() => {});
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { Log    } = await import("../lib/log");
+    const { Notice } = await import("obsidian");
+    (Notice as any).mockClear();
+
+    const log = Log.init("plugin", {
+      loglevel: "info",
+      notices:  { error: { persistent: true }, info: { duration: 2000, silent: true } },
+    });
+
+    log.notice("failed", "error");
+    expect((Notice as any).mock.calls.at(-1)).toEqual([ "failed", 0 ]);
+
+    log.notice("failed again", new Error("boom"), { duration: 3000 });
+    expect((Notice as any).mock.calls.at(-1)).toEqual([ "failed again\r\nError: boom", 3000 ]);
+
+    log.notice("quiet");
+    expect((Notice as any).mock.calls).toHaveLength(2);
+
+    log.notice("loud", "info", { silent: false });
+    expect((Notice as any).mock.calls.at(-1)).toEqual([ "loud", 2000 ]);
+
+    infoSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
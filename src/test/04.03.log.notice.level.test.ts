@@ -0,0 +1,88 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const spies: { mockRestore(): void }[] = [];
+
+  beforeEach(() => {
+    for (const method of [ "debug", "log", "info", "warn", "error" ] as const) {
+      spies.push(vi.spyOn(console, method).mockImplementation(() => {}));
+    }
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  /**
+   * Imports fresh modules and returns a logger and the mocked `Notice`.
+   */
+  async function setup(noticeLevel?: any) {
+    vi.resetModules();
+
+    const { Log    } = await import("../lib/log");
+    const { Notice } = await import("obsidian");
+    (Notice as any).mockClear();
+
+    const log      = Log.init("plugin", { loglevel: "info", noticeLevel });
+    const messages = () => (Notice as any).mock.calls.map((call: unknown[]) => call[0]);
+
+    return { log, messages };
+  }
+
+  test("without noticeLevel all notices except debug are shown", async () => {
+    const { log, messages } = await setup();
+
+    log.notice("i");
+    log.notice("l", "log");
+    log.notice("s", "success");
+    log.notice("d", "debug");
+    log.notice("w", "warn");
+
+    expect(messages()).toEqual([ "i", "l", "s", "w" ]);
+  });
+
+  test("noticeLevel 'warn' keeps errors and warnings only", async () => {
+    const { log, messages } = await setup("warn");
+
+    log.notice("i");
+    log.notice("s", "success");
+    log.notice("w", "warn");
+    log.notice("e", new Error("boom"));
+
+    expect(messages()).toEqual([ "w", "e\r\nError: boom" ]);
+  });
+
+  test("success ranks like debug", async () => {
+    const { log, messages } = await setup("debug");
+
+    log.notice("s", "success");
+    log.notice("l", "log");
+    log.notice("d", "debug");
+
+    expect(messages()).toEqual([ "s" ]);
+  });
+
+  test("noticeLevel 'none' shows no notices but still logs", async () => {
+    const { log, messages } = await setup("none");
+
+    log.notice("failed", "error");
+
+    expect(messages()).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith("plugin", "failed");
+  });
+
+  test("noticeLevel is independent of the console level and read live", async () => {
+    const { log, messages } = await setup("info");
+
+    log.setLevel("error");
+    log.notice("shown but not logged");
+    expect(messages()).toEqual([ "shown but not logged" ]);
+    expect(console.info).not.toHaveBeenCalled();
+
+    log.getSettings().noticeLevel = "error";
+    log.notice("hidden");
+    expect(messages()).toHaveLength(1);
+  });
+});
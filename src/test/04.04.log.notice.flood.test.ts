@@ -0,0 +1,141 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const spies: { mockRestore(): void }[] = [];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    for (const method of [ "debug", "log", "info", "warn", "error" ] as const) {
+      spies.push(vi.spyOn(console, method).mockImplementation(() => {}));
+    }
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+    vi.useRealTimers();
+  });
+
+  /**
+   * Imports fresh modules and returns a logger and the notices it created.
+   */
+  async function setup(noticeLimits?: any) {
+    vi.resetModules();
+
+    const { Log    } = await import("../lib/log");
+    const { Notice } = await import("obsidian");
+    (Notice as any).mockClear();
+
+    const log     = Log.init("plugin", { loglevel: "info", noticeLimits });
+    const notices = () => (Notice as any).mock.instances as any[];
+
+    return { log, notices };
+  }
+
+  test("identical notices within the window are coalesced with a counter", async () => {
+    const { log, notices } = await setup();
+
+    log.notice("Sync failed", "error");
+    vi.advanceTimersByTime(1000);
+    log.notice("Sync failed", "error");
+    log.notice("Sync failed", "error");
+
+    expect(notices()).toHaveLength(1);
+    expect(notices()[0].message).toBe("Sync failed (×3)");
+    expect(console.error).toHaveBeenCalledTimes(3);
+  });
+
+  test("the same text at another level is not coalesced", async () => {
+    const { log, notices } = await setup();
+
+    log.notice("Sync failed", "error");
+    log.notice("Sync failed", "warn");
+
+    expect(notices()).toHaveLength(2);
+  });
+
+  test("a repeat after the notice disappeared shows a new notice with the counter", async () => {
+    const { log, notices } = await setup({ windowMs: 10_000 });
+
+    log.notice("Sync failed", "error", { duration: 2000 });
+    vi.advanceTimersByTime(3000);
+    log.notice("Sync failed", "error", { duration: 2000 });
+
+    expect(notices()).toHaveLength(2);
+    expect(notices()[1].message).toBe("Sync failed (×2)");
+
+    notices()[1].hide();
+    log.notice("Sync failed", "error", { duration: 2000 });
+    expect(notices()).toHaveLength(3);
+    expect(notices()[2].message).toBe("Sync failed (×3)");
+  });
+
+  test("the counter restarts once the window has passed", async () => {
+    const { log, notices } = await setup({ windowMs: 1000 });
+
+    log.notice("Saved", "success", { persistent: true });
+    vi.advanceTimersByTime(1500);
+    log.notice("Saved", "success", { persistent: true });
+
+    expect(notices()).toHaveLength(2);
+    expect(notices()[1].message).toBe("Saved");
+  });
+
+  test("windowMs 0 disables deduplication", async () => {
+    const { log, notices } = await setup({ windowMs: 0 });
+
+    log.notice("Saved");
+    log.notice("Saved");
+
+    expect(notices()).toHaveLength(2);
+    expect(notices()[1].setMessage).not.toHaveBeenCalled();
+  });
+
+  test("notices beyond max are summarized in a single notice", async () => {
+    const { log, notices } = await setup({ max: 2 });
+
+    log.notice("a");
+    log.notice("b");
+    log.notice("c");
+    log.notice("d");
+
+    expect(notices().map((n) => n.message)).toEqual([ "a", "b", "2 more notices suppressed, see the console for details" ]);
+    expect(console.info).toHaveBeenCalledTimes(4);
+
+    vi.advanceTimersByTime(5000);
+    log.notice("e");
+    expect(notices().at(-1).message).toBe("e");
+  });
+
+  test("repeats of a visible notice are coalesced even at the limit", async () => {
+    const { log, notices } = await setup({ max: 1 });
+
+    log.notice("a");
+    log.notice("a");
+
+    expect(notices()).toHaveLength(1);
+    expect(notices()[0].message).toBe("a (×2)");
+  });
+
+  test("max Infinity disables the limit, invalid values fall back to the default", async () => {
+    const { log, notices } = await setup({ max: Infinity });
+
+    for (let i = 0; i < 10; i++) log.notice(`n${i}`);
+    expect(notices()).toHaveLength(10);
+
+    const { log: other, notices: created } = await setup({ max: -1 });
+
+    for (let i = 0; i < 10; i++) other.notice(`n${i}`);
+    expect(created()).toHaveLength(6);
+  });
+
+  test("child loggers share the limits of their root logger", async () => {
+    const { log, notices } = await setup({ max: 1 });
+
+    log.notice("root");
+    log.child("sync").notice("child");
+
+    expect(notices().map((n) => n.message)).toEqual([ "root", "1 more notice suppressed, see the console for details" ]);
+  });
+});
@@ -0,0 +1,169 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+import { createPlugin } from "./__mocks__/plugin";
+
+/**
+ * Creates a plugin stand-in whose workspace opens links and reveals leaves.
+ */
+function createWorkspacePlugin() {
+  return createPlugin({
+    app: {
+      workspace: {
+        openLinkText: vi.fn(async () => {}),
+        revealLeaf:   vi.fn(async () => {}),
+      },
+    },
+  });
+}
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const spies: { mockRestore(): void }[] = [];
+
+  beforeEach(() => {
+    for (const method of [ "debug", "log", "info", "warn", "error" ] as const) {
+      spies.push(vi.spyOn(console, method).mockImplementation(() => {}));
+    }
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  /**
+   * Imports fresh modules and returns a logger and accessors of the notices.
+   */
+  async function setup() {
+    vi.resetModules();
+
+    const { Log    } = await import("../lib/log");
+    const { Notice } = await import("obsidian");
+    (Notice as any).mockClear();
+
+    const log     = Log.init("plugin", { loglevel: "info" });
+    const notice  = () => (Notice as any).mock.instances.at(-1);
+    const buttons = (n = notice()) => [ ...n.messageEl.querySelectorAll("button") ] as HTMLButtonElement[];
+    const labels  = (n = notice()) => buttons(n).map((button) => button.textContent);
+
+    return { Log, log, Notice, notice, buttons, labels };
+  }
+
+  test("notices have no buttons by default", async () => {
+    const { log, labels } = await setup();
+
+    log.notice("Saved", "success");
+    expect(labels()).toEqual([]);
+
+    log.notice("Careful", "warn");
+    expect(labels()).toEqual([]);
+  });
+
+  test("error notices copy the message and stack via 'Copy details'", async () => {
+    const writeText = vi.fn(async (_text: string) => {});
+    Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+
+    const { log, notice, buttons, labels } = await setup();
+    const error = new Error("offline");
+
+    log.notice("Sync failed", error);
+    const shown = notice();
+    expect(labels(shown)).toEqual([ "Copy details" ]);
+
+    buttons(shown)[0].click();
+    await vi.waitFor(() => expect(writeText).toHaveBeenCalledWith(`Sync failed\n\n${error.stack}`));
+
+    expect(shown.hide).toHaveBeenCalled();
+    await vi.waitFor(() => expect(notice().message).toBe("Details copied to clipboard"));
+  });
+
+  test("error and warning notices offer 'Open log' while a viewer is set", async () => {
+    const { log, buttons, labels } = await setup();
+    const open   = vi.fn();
+    const remove = log.child("sync").setViewer(open);
+
+    log.notice("Sync failed", new Error("offline"));
+    expect(labels()).toEqual([ "Copy details", "Open log" ]);
+
+    log.notice("Slow connection", "warn");
+    expect(labels()).toEqual([ "Open log" ]);
+
+    log.notice("Done");
+    expect(labels()).toEqual([]);
+
+    log.notice("Retrying", "warn");
+    buttons()[0].click();
+    await vi.waitFor(() => expect(open).toHaveBeenCalledTimes(1));
+
+    remove();
+    log.notice("Still slow", "warn");
+    expect(labels()).toEqual([]);
+  });
+
+  test("removing a replaced viewer keeps the current one", async () => {
+    const { log, labels } = await setup();
+
+    const remove = log.setViewer(vi.fn());
+    log.setViewer(vi.fn());
+    remove();
+
+    log.notice("Slow connection", "warn");
+    expect(labels()).toEqual([ "Open log" ]);
+  });
+
+  test("caller actions run their callback and hide the notice", async () => {
+    const { log, notice, buttons, labels } = await setup();
+    const retry = vi.fn();
+
+    log.notice("Sync conflict", "warn", { actions: [ { label: "Retry", callback: retry } ] });
+    expect(labels()).toEqual([ "Retry" ]);
+
+    buttons()[0].click();
+    await vi.waitFor(() => expect(retry).toHaveBeenCalledTimes(1));
+    expect(notice().hide).toHaveBeenCalled();
+  });
+
+  test("failing actions are logged as errors", async () => {
+    const { log, buttons } = await setup();
+
+    log.notice("Sync conflict", "warn", { actions: [ { label: "Retry", callback: async () => { throw new Error("busy"); } } ] });
+    buttons()[0].click();
+
+    await vi.waitFor(() => expect(console.error).toHaveBeenCalledWith("plugin", 'Notice action "Retry" failed:', new Error("busy")));
+  });
+
+  test("coalesced notices keep a single set of buttons", async () => {
+    const { log, notice, labels } = await setup();
+    const actions = [ { label: "Retry", callback: vi.fn() } ];
+
+    log.notice("Sync conflict", "warn", { actions });
+    log.notice("Sync conflict", "warn", { actions });
+
+    expect(notice().message).toBe("Sync conflict (×2)");
+    expect(labels()).toEqual([ "Retry" ]);
+  });
+
+  test("clicking the notice opens a vault path or reveals a leaf of an attached logger", async () => {
+    const { Log, notice } = await setup();
+    const plugin = createWorkspacePlugin();
+    const log    = await Log.attach(plugin as any);
+    const leaf   = { view: {} };
+
+    log.notice("Export written", "success", { open: "Exports/2026-01-31.md" });
+    notice().messageEl.click();
+    expect(plugin.app.workspace.openLinkText).toHaveBeenCalledWith("Exports/2026-01-31.md", "", false);
+
+    log.notice("Log opened", "success", { open: leaf as any });
+    notice().messageEl.click();
+    expect(plugin.app.workspace.revealLeaf).toHaveBeenCalledWith(leaf);
+
+    plugin.unload();
+  });
+
+  test("open is ignored for loggers that are not attached", async () => {
+    const { log, notice } = await setup();
+
+    log.notice("Export written", "success", { open: "Exports/2026-01-31.md" });
+
+    expect(notice().messageEl.onclick).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const spies: { mockRestore(): void }[] = [];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    for (const method of [ "debug", "log", "info", "warn", "error" ] as const) {
+      spies.push(vi.spyOn(console, method).mockImplementation(() => {}));
+    }
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+    vi.useRealTimers();
+  });
+
+  /**
+   * Imports fresh modules and returns a logger and the created notices.
+   */
+  async function setup(settings: object = {}) {
+    vi.resetModules();
+
+    const { Log    } = await import("../lib/log");
+    const { Notice } = await import("obsidian");
+    (Notice as any).mockClear();
+
+    const log     = Log.init("plugin", { loglevel: "info", ...settings });
+    const notices = () => (Notice as any).mock.instances as any[];
+
+    return { log, Notice, notices };
+  }
+
+  test("updates a single persistent notice in place", async () => {
+    const { log, Notice, notices } = await setup();
+
+    const progress = log.progress("Re-indexing");
+    progress.update("daily/2026-01-01.md", 0.25);
+    progress.update("daily/2026-01-02.md");
+
+    expect(Notice).toHaveBeenCalledTimes(1);
+    expect(Notice).toHaveBeenCalledWith("Re-indexing", 0);
+    expect(notices()[0].message).toBe("Re-indexing: daily/2026-01-02.md");
+    expect(notices()[0].setMessage).toHaveBeenCalledWith("Re-indexing: daily/2026-01-01.md (25%)");
+    expect(console.debug).toHaveBeenCalledWith("plugin", "Re-indexing started");
+  });
+
+  test("fractions are clamped and rounded", async () => {
+    const { log, notices } = await setup();
+
+    const progress = log.progress("Import");
+    progress.update("a", 1.7);
+    expect(notices()[0].message).toBe("Import: a (100%)");
+
+    progress.update("b", 0.333);
+    expect(notices()[0].message).toBe("Import: b (33%)");
+
+    progress.update("c", NaN);
+    expect(notices()[0].message).toBe("Import: c");
+  });
+
+  test("succeed() styles the notice, logs the duration and hides it", async () => {
+    const { log, notices } = await setup();
+
+    const progress = log.progress("Renaming");
+    vi.advanceTimersByTime(1200);
+    progress.succeed("12 notes renamed");
+
+    const [ notice ] = notices();
+    expect(notice.message).toBe("Renaming: 12 notes renamed");
+    expect(notice.messageEl.addClass).toHaveBeenCalledWith("notice-success");
+    expect(console.info).toHaveBeenCalledWith("plugin", "Renaming: 12 notes renamed", "durationMs=1200");
+    expect(progress.isDone()).toBe(true);
+
+    vi.advanceTimersByTime(5000);
+    expect(notice.hide).toHaveBeenCalled();
+  });
+
+  test("fail() styles the notice as error and logs the error", async () => {
+    const { log, notices } = await setup({ notices: { error: { persistent: true } } });
+    const error = new Error("disk full");
+
+    const progress = log.progress("Export");
+    progress.fail(error);
+
+    const [ notice ] = notices();
+    expect(notice.message).toBe("Export: disk full");
+    expect(notice.messageEl.addClass).toHaveBeenCalledWith("notice-error");
+    expect(console.error).toHaveBeenCalledWith("plugin", "Export failed:", error, "durationMs=0");
+
+    vi.advanceTimersByTime(60_000);
+    expect(notice.hide).not.toHaveBeenCalled();
+  });
+
+  test("a silent outcome hides the notice instead of showing it", async () => {
+    const { log, notices } = await setup({ notices: { success: { silent: true } } });
+
+    const progress = log.progress("Renaming");
+    progress.succeed("12 notes renamed");
+
+    const [ notice ] = notices();
+    expect(notice.hide).toHaveBeenCalledOnce();
+    expect(notice.setMessage).not.toHaveBeenCalledWith("Renaming: 12 notes renamed");
+    expect(notice.messageEl.addClass).not.toHaveBeenCalled();
+    expect(log.getNotifications()).toEqual([]);
+    expect(console.info).toHaveBeenCalledWith("plugin", "Renaming: 12 notes renamed", "durationMs=0");
+  });
+
+  test("calls after the end are ignored", async () => {
+    const { log, notices } = await setup();
+
+    const progress = log.progress("Sync");
+    progress.fail("offline");
+    progress.update("late");
+    progress.succeed();
+
+    expect(notices()[0].message).toBe("Sync: offline");
+    expect(console.info).not.toHaveBeenCalled();
+  });
+
+  test("without info notices only the outcome is shown, subject to noticeLevel", async () => {
+    const { log, Notice } = await setup({ noticeLevel: "warn" });
+
+    const ok = log.progress("Sync");
+    ok.update("step");
+    ok.succeed();
+    expect(Notice).not.toHaveBeenCalled();
+
+    log.progress("Sync").fail("offline");
+    expect(Notice).toHaveBeenCalledTimes(1);
+    expect(Notice).toHaveBeenCalledWith("Sync: offline", undefined);
+  });
+});
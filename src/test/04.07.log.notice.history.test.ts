@@ -0,0 +1,91 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const spies: { mockRestore(): void }[] = [];
+
+  beforeEach(() => {
+    for (const method of [ "debug", "log", "info", "warn", "error" ] as const) {
+      spies.push(vi.spyOn(console, method).mockImplementation(() => {}));
+    }
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  /**
+   * Imports fresh modules and returns a new logger.
+   */
+  async function setup(settings: object = {}) {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+    return Log.init("plugin", { loglevel: "none", ...settings });
+  }
+
+  test("records shown notices independent of the console level", async () => {
+    const log   = await setup();
+    const error = new Error("offline");
+
+    log.notice("Saved", "success");
+    log.child("sync").notice("Sync failed", error);
+
+    expect(log.getNotifications()).toEqual([
+      { level: "success", message: "Saved", timestamp: expect.any(Number) },
+      { level: "error", message: "Sync failed", timestamp: expect.any(Number), namespace: "sync", error },
+    ]);
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  test("silent, debug and filtered notices are not recorded", async () => {
+    const log = await setup({ noticeLevel: "warn" });
+
+    log.notice("quiet", "info", { silent: true });
+    log.notice("dbg", "debug");
+    log.notice("hidden");
+    log.notice("shown", "warn");
+
+    expect(log.getNotifications().map((n) => n.message)).toEqual([ "shown" ]);
+  });
+
+  test("notices suppressed by the flood control are recorded", async () => {
+    const log = await setup({ noticeLimits: { max: 1 } });
+
+    log.notice("a");
+    log.notice("b");
+    log.notice("a");
+
+    expect(log.getNotifications().map((n) => n.message)).toEqual([ "a", "b", "a" ]);
+  });
+
+  test("records the outcome of progress notices", async () => {
+    const log   = await setup();
+    const error = new Error("disk full");
+
+    log.progress("Import").succeed();
+    log.progress("Export").fail(error);
+
+    expect(log.getNotifications()).toMatchObject([
+      { level: "success", message: "Import: done" },
+      { level: "error", message: "Export: disk full", error },
+    ]);
+  });
+
+  test("keeps the last 100 notifications and can be cleared", async () => {
+    const log = await setup();
+
+    for (let i = 0; i < 105; i++) log.notice(`n${i}`, "log");
+
+    const history = log.getNotifications();
+    expect(history).toHaveLength(100);
+    expect(history[0].message).toBe("n5");
+
+    history.length = 0;
+    expect(log.getNotifications()).toHaveLength(100);
+
+    log.child("sync").clearNotifications();
+    expect(log.getNotifications()).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const spies: { mockRestore(): void }[] = [];
+
+  beforeEach(() => {
+    for (const method of [ "debug", "log", "info", "warn", "error" ] as const) {
+      spies.push(vi.spyOn(console, method).mockImplementation(() => {}));
+    }
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  /**
+   * Imports fresh modules and returns a logger and the mocked `Notice`.
+   */
+  async function setup() {
+    vi.resetModules();
+
+    const { Log    } = await import("../lib/log");
+    const { Notice } = await import("obsidian");
+    (Notice as any).mockClear();
+
+    const log    = Log.init("plugin", { loglevel: "info" });
+    const notice = () => (Notice as any).mock.instances.at(-1);
+    const text   = () => (Notice as any).mock.calls.at(-1)[0];
+
+    return { log, notice, text };
+  }
+
+  test("error() accepts any thrown value", async () => {
+    const { log } = await setup();
+
+    log.error("timeout", "Request failed");
+    log.error({ status: 500 });
+
+    expect(console.error).toHaveBeenCalledWith("plugin", "Request failed", "timeout");
+    expect(console.error).toHaveBeenCalledWith("plugin", { status: 500 });
+  });
+
+  test("notice() shows name and message of non-Error throwables", async () => {
+    const { log, notice, text } = await setup();
+
+    log.notice("Download aborted", new DOMException("The user aborted a request.", "AbortError"));
+    expect(text()).toBe("Download aborted\r\nAbortError: The user aborted a request.");
+    expect(notice().messageEl.addClass).toHaveBeenCalledWith("notice-error");
+
+    log.notice("Request failed", { message: "Rate limited", code: 429 });
+    expect(text()).toBe("Request failed\r\nError: Rate limited");
+
+    log.notice("Rejected", 42);
+    expect(text()).toBe("Rejected\r\nError: 42");
+    expect(console.error).toHaveBeenCalledWith("plugin", "Rejected", 42);
+  });
+
+  test("'Copy details' includes the cause chain and aggregated errors", async () => {
+    const writeText = vi.fn(async (_text: string) => {});
+    Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+
+    const { log, notice } = await setup();
+    const error = new AggregateError([ "a", "b" ], "Sync failed", { cause: new TypeError("Failed to fetch") });
+
+    log.notice("Sync failed", error);
+    notice().messageEl.querySelector("button").click();
+
+    await vi.waitFor(() => expect(writeText).toHaveBeenCalled());
+    const details = writeText.mock.calls[0][0];
+    expect(details).toContain("[1] Error: a\n[2] Error: b\n");
+    expect(details).toContain("Caused by: TypeError: Failed to fetch");
+  });
+
+  test("non-Error throwables are kept in the notification history", async () => {
+    const { log } = await setup();
+
+    log.notice("Rejected", "offline");
+
+    expect(log.getNotifications()[0]).toMatchObject({ level: "error", message: "Rejected", error: "offline" });
+  });
+
+  test("notice() warns about mistyped levels instead of showing them as error", async () => {
+    const { log, notice, text } = await setup();
+
+    log.notice("Almost synced", "Warn");
+
+    expect(console.warn).toHaveBeenCalledWith("plugin", expect.stringContaining("invalid level"), "Warn");
+    expect(console.info).toHaveBeenCalledWith("plugin", "Almost synced");
+    expect(text()).toBe("Almost synced");
+    expect(notice().messageEl.addClass).toHaveBeenCalledWith("notice-info");
+    expect(log.getNotifications()[0]).toMatchObject({ level: "info", message: "Almost synced" });
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  test("progress.fail() accepts any thrown value", async () => {
+    const { log, notice } = await setup();
+
+    const progress = log.progress("Export");
+    progress.fail({ message: "disk full", code: "ENOSPC" });
+
+    expect(notice().message).toBe("Export: disk full");
+    expect(console.error).toHaveBeenCalledWith("plugin", "Export failed:", { message: "disk full", code: "ENOSPC" }, expect.stringMatching(/^durationMs=\d+$/));
+  });
+});
@@ -0,0 +1,168 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+import type { LogRecord } from "../lib/types";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  test("transport receives a record for enabled messages", async () => {
+    vi.resetModules();
+
+    const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const records: LogRecord[] = [];
+    const log = Log.init("plugin", { loglevel: "info" });
+    log.addTransport({ write: (record) => records.push(record) });
+
+    log.info("hello", 42);
+
+    expect(infoSpy).toHaveBeenCalledWith("plugin", "hello", 42);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ level: "info", pluginname: "plugin", args: [ "hello", 42 ] });
+    expect(typeof records[0].timestamp).toBe("number");
+
+    infoSpy.mockRestore();
+  });
+
+  test("transport without level follows the logger's loglevel", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const write = vi.fn();
+    const log   = Log.init("plugin", { loglevel: "warn" });
+    log.addTransport({ write });
+
+    log.debug("dbg");
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  test("transport level is evaluated independently of the console", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const verbose = vi.fn();
+    const quiet   = vi.fn();
+    const log     = Log.init("plugin", { loglevel: "warn" });
+    log.addTransport({ level: "debug", write: verbose });
+    log.addTransport({ level: "none",  write: quiet   });
+
+    log.debug("dbg");
+    log.error(new Error("boom"));
+
+    // console stays at warn
+    expect(debugSpy).not.toHaveBeenCalled();
+    expect(verbose).toHaveBeenCalledTimes(2);
+    expect(verbose.mock.calls[0][0]).toMatchObject({ level: "debug", args: [ "dbg" ] });
+    expect(quiet).not.toHaveBeenCalled();
+
+    debugSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  test("all transports share the same record", async () => {
+    vi.resetModules();
+
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const first  = vi.fn();
+    const second = vi.fn();
+    const log    = Log.init("plugin", { loglevel: "log" });
+    log.addTransport({ write: first  });
+    log.addTransport({ write: second });
+
+    log.log("plain");
+
+    expect(first.mock.calls[0][0]).toBe(second.mock.calls[0][0]);
+
+    logSpy.mockRestore();
+  });
+
+  test("registering the same transport twice delivers once", async () => {
+    vi.resetModules();
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const transport = { write: vi.fn() };
+    const log       = Log.init("plugin", { loglevel: "warn" });
+    log.addTransport(transport);
+    log.addTransport(transport);
+
+    log.warn("careful");
+
+    expect(transport.write).toHaveBeenCalledOnce();
+
+    warnSpy.mockRestore();
+  });
+
+  test("removeTransport() and the returned remover stop delivery", async () => {
+    vi.resetModules();
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const first  = { write: vi.fn() };
+    const second = { write: vi.fn() };
+    const log    = Log.init("plugin", { loglevel: "warn" });
+    const remove = log.addTransport(first);
+    log.addTransport(second);
+
+    remove();
+    expect(log.removeTransport(second)).toBe(true);
+    expect(log.removeTransport(second)).toBe(false);
+
+    log.warn("careful");
+
+    expect(first.write).not.toHaveBeenCalled();
+    expect(second.write).not.toHaveBeenCalled();
+
+    warnSpy.mockRestore();
+  });
+
+  test("a failing transport is reported and does not affect others", async () => {
+    vi.resetModules();
+
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const warnSpy  = vi.spyOn(console, "warn" ).mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const failure = new Error("disk full");
+    const healthy = vi.fn();
+    const log     = Log.init("plugin", { loglevel: "warn" });
+    log.addTransport({ write: () => { throw failure; } });
+    log.addTransport({ write: healthy });
+
+    expect(() => log.warn("careful")).not.toThrow();
+    expect(healthy).toHaveBeenCalledOnce();
+    expect(errorSpy).toHaveBeenCalledWith("plugin", "Log transport failed:", failure);
+
+    errorSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  test("notice() forwards its console record to transports", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const write = vi.fn();
+    const log   = Log.init("plugin", { loglevel: "none" });
+    log.addTransport({ level: "debug", write });
+
+    log.notice("saved", "success");
+
+    expect(write).toHaveBeenCalledOnce();
+    expect(write.mock.calls[0][0]).toMatchObject({ level: "debug", args: [ "saved" ] });
+  });
+});
@@ -0,0 +1,174 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  test("child() prefixes console output with pluginname:namespace", async () => {
+    vi.resetModules();
+
+    const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("my-plugin", { loglevel: "info" });
+    log.child("sync").info("started");
+    log.info("root");
+
+    expect(infoSpy).toHaveBeenCalledWith("my-plugin:sync", "started");
+    expect(infoSpy).toHaveBeenCalledWith("my-plugin", "root");
+
+    infoSpy.mockRestore();
+  });
+
+  test("child loggers can be nested", async () => {
+    vi.resetModules();
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("my-plugin", { loglevel: "warn" });
+    log.child("sync").child("remote").warn("slow");
+    log.child("sync:remote").warn("slower");
+
+    expect(warnSpy).toHaveBeenCalledWith("my-plugin:sync:remote", "slow");
+    expect(warnSpy).toHaveBeenCalledWith("my-plugin:sync:remote", "slower");
+
+    warnSpy.mockRestore();
+  });
+
+  test("child() returns the same instance for the same namespace", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("my-plugin", { loglevel: "warn" });
+
+    expect(log.child("sync")).toBe(log.child("sync"));
+    expect(log.child(":sync:")).toBe(log.child("sync"));
+    expect(log.child("sync")).not.toBe(log.child("indexer"));
+  });
+
+  test("child() returns the same instance for the same qualified namespace", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const log    = Log.init("my-plugin", { loglevel: "warn" });
+    const remote = log.child("sync:remote");
+
+    expect(log.child("sync").child("remote")).toBe(remote);
+    expect(log.child("sync").child("remote:")).toBe(remote);
+    expect(remote.child("a")).toBe(log.child("sync").child("remote:a"));
+    expect(log.child("remote")).not.toBe(remote);
+  });
+
+  test("child() with an empty namespace returns the logger itself", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("my-plugin", { loglevel: "warn" });
+
+    expect(log.child("")).toBe(log);
+    expect(log.child(" : ")).toBe(log);
+  });
+
+  test("child loggers share settings and transports with their parent", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const warnSpy  = vi.spyOn(console, "warn" ).mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const write    = vi.fn();
+    const settings = { loglevel: "warn" as const };
+    const log      = Log.init("my-plugin", settings);
+    const sync     = log.child("sync");
+    sync.child("remote").addTransport({ write });
+
+    sync.debug("hidden");
+    expect(debugSpy).not.toHaveBeenCalled();
+
+    (settings as any).loglevel = "debug";
+    sync.debug("visible");
+    expect(debugSpy).toHaveBeenCalledWith("my-plugin:sync", "visible");
+
+    log.warn("root");
+    expect(write).toHaveBeenCalledTimes(2);
+
+    debugSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  test("records carry the namespace of the emitting child logger", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const write = vi.fn();
+    const log   = Log.init("my-plugin", { loglevel: "none" });
+    log.addTransport({ level: "info", write });
+
+    log.child("indexer").event("info", "indexed", { files: 3 });
+    log.info("root");
+
+    expect(write.mock.calls[0][0]).toMatchObject({ pluginname: "my-plugin", namespace: "indexer", fields: { files: 3 } });
+    expect(write.mock.calls[1][0]).not.toHaveProperty("namespace");
+  });
+
+  test("namespace rules in settings override the global level for child loggers", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const warnSpy  = vi.spyOn(console, "warn" ).mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("my-plugin", { loglevel: "warn", namespaces: { "sync:*": "debug", "indexer": "error" } });
+
+    log.child("sync:remote").debug("visible");
+    log.child("sync").debug("hidden (pattern requires a sub-namespace)");
+    log.child("indexer").warn("hidden");
+    log.debug("hidden");
+
+    expect(debugSpy).toHaveBeenCalledOnce();
+    expect(debugSpy).toHaveBeenCalledWith("my-plugin:sync:remote", "visible");
+    expect(warnSpy).not.toHaveBeenCalledWith("my-plugin:indexer", "hidden");
+
+    debugSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  test("transports without level follow the namespace rule", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const write = vi.fn();
+    const log   = Log.init("my-plugin", { loglevel: "error", namespaces: { "ui": "debug" } });
+    log.addTransport({ write });
+
+    log.child("ui").debug("rendered");
+    log.debug("dropped");
+
+    expect(write).toHaveBeenCalledOnce();
+    expect(write.mock.calls[0][0]).toMatchObject({ namespace: "ui", args: [ "rendered" ] });
+
+    debugSpy.mockRestore();
+  });
+
+  test("getName() returns the plugin name, also for child loggers", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin");
+
+    expect(log.getName()).toBe("plugin");
+    expect(log.child("sync").child("remote").getName()).toBe("plugin");
+  });
+});
@@ -0,0 +1,152 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+import { createPlugin } from "./__mocks__/plugin";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  test("attach() uses the manifest id and persisted settings", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const plugin = createPlugin({ data: { log: { loglevel: "debug" } } });
+    const log    = await Log.attach(plugin as any);
+
+    expect(Log.get("my-plugin")).toBe(log);
+    expect(debugSpy).toHaveBeenCalledWith("my-plugin", "Logger attached", "version=1.2.3");
+
+    debugSpy.mockRestore();
+  });
+
+  test("attach() falls back to the given defaults", async () => {
+    vi.resetModules();
+
+    const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const plugin = createPlugin();
+    const log    = await Log.attach(plugin as any, { defaults: { loglevel: "warn" } });
+
+    log.info("hidden");
+    expect(infoSpy).not.toHaveBeenCalled();
+
+    infoSpy.mockRestore();
+  });
+
+  test("attach() replaces stale settings of a registered logger", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const stale = Log.init("my-plugin", { loglevel: "none" });
+    const log   = await Log.attach(createPlugin({ data: { log: { loglevel: "error" } } }) as any);
+
+    expect(log).toBe(stale);
+    expect(log["settings"]).toEqual({ loglevel: "error" });
+  });
+
+  test("save() persists settings under the key and keeps other data", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const plugin = createPlugin({ data: { theme: "dark", logging: { loglevel: "warn" } } });
+    const log    = await Log.attach(plugin as any, { key: "logging" });
+
+    log["settings"].loglevel = "debug";
+    await log.child("sync").save();
+
+    expect(plugin.saveData).toHaveBeenCalledOnce();
+    expect(plugin.data).toEqual({ theme: "dark", logging: { loglevel: "debug" } });
+  });
+
+  test("attach() shares the settings object passed as data with the plugin", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const plugin   = createPlugin({ data: { log: { loglevel: "error" } } });
+    const settings = { theme: "dark", log: { loglevel: "warn" } } as Record<string, unknown>;
+    const log      = await Log.attach(plugin as any, { data: settings });
+
+    expect(plugin.loadData).not.toHaveBeenCalled();
+    expect(settings.log).toBe(log.getSettings());
+
+    log.setLevel("debug");
+    await log.save();
+
+    expect(plugin.saveData).toHaveBeenCalledWith(settings);
+    expect(plugin.data).toEqual({ theme: "dark", log: { loglevel: "debug" } });
+
+    // the plugin saving its own settings keeps the logger's level
+    settings.theme = "light";
+    await plugin.saveData(settings);
+    expect(plugin.data).toEqual({ theme: "light", log: { loglevel: "debug" } });
+  });
+
+  test("save() persists shared settings through the persist callback", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const plugin   = createPlugin();
+    const settings = {} as Record<string, unknown>;
+    const persist  = vi.fn(async () => plugin.saveData(settings));
+    const log      = await Log.attach(plugin as any, { data: settings, persist });
+
+    Log.reinit("my-plugin", { loglevel: "error" });
+    await log.save();
+
+    expect(persist).toHaveBeenCalledOnce();
+    expect(plugin.data).toEqual({ log: { loglevel: "error" } });
+  });
+
+  test("save() without attached plugin does nothing", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("my-plugin", { loglevel: "warn" });
+
+    await expect(log.save()).resolves.toBeUndefined();
+  });
+
+  test("unloading the plugin disposes the logger", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const plugin    = createPlugin();
+    const log       = await Log.attach(plugin as any);
+    const transport = { write: vi.fn(), dispose: vi.fn() };
+    log.addTransport(transport);
+
+    expect(plugin.register).toHaveBeenCalledOnce();
+    plugin.unload();
+
+    expect(transport.dispose).toHaveBeenCalledOnce();
+    expect(Log.get("my-plugin")).toBeUndefined();
+
+    // detached loggers no longer persist
+    await log.save();
+    expect(plugin.saveData).not.toHaveBeenCalled();
+  });
+
+  test("unloading a previous plugin instance keeps a re-attached logger", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const previous = createPlugin();
+    const current  = createPlugin();
+    const log      = await Log.attach(previous as any);
+    await Log.attach(current as any);
+
+    previous.unload();
+
+    expect(Log.get("my-plugin")).toBe(log);
+  });
+});
@@ -0,0 +1,160 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+/**
+ * Returns the dropdowns of the two most recent `Setting` stand-ins of
+ * src/test/__mocks__/obsidian.ts, i.e. the log level and notice level
+ * dropdowns rendered by the last `addLogSettings()` call.
+ */
+async function lastDropdowns() {
+  const { Setting } = await import("obsidian");
+  return (Setting as any).mock.instances.slice(-2).map((setting: any) => setting.dropdowns.at(-1));
+}
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  test("addLogSettings() renders a level dropdown with all log levels", async () => {
+    vi.resetModules();
+
+    const { Log            } = await import("../lib/log");
+    const { addLogSettings } = await import("../lib/log.settings");
+
+    const containerEl = document.createElement("div");
+    const log         = Log.init("plugin", { loglevel: "warn" });
+    const [ setting ] = addLogSettings(containerEl, log) as any[];
+
+    expect(setting.containerEl).toBe(containerEl);
+    expect(setting.setName).toHaveBeenCalledWith("Log level");
+
+    const [ dropdown ] = await lastDropdowns();
+    expect(Object.keys(dropdown.options)).toEqual([ "none", "error", "warn", "debug", "log", "info" ]);
+    expect(dropdown.value).toBe("warn");
+  });
+
+  test("addLogSettings() accepts a custom name and description", async () => {
+    vi.resetModules();
+
+    const { Log            } = await import("../lib/log");
+    const { addLogSettings } = await import("../lib/log.settings");
+
+    const log     = Log.init("plugin", { loglevel: "warn" });
+    const [ level, notice ] = addLogSettings(document.createElement("div"), log, {
+      name: "Logging", desc: "Verbosity", noticeName: "Popups", noticeDesc: "Which popups",
+    }) as any[];
+
+    expect(level.setName).toHaveBeenCalledWith("Logging");
+    expect(level.setDesc).toHaveBeenCalledWith("Verbosity");
+    expect(notice.setName).toHaveBeenCalledWith("Popups");
+    expect(notice.setDesc).toHaveBeenCalledWith("Which popups");
+  });
+
+  test("selecting a level applies it live, persists it and calls onChange", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log            } = await import("../lib/log");
+    const { addLogSettings } = await import("../lib/log.settings");
+
+    const onChange = vi.fn();
+    const log      = Log.init("plugin", { loglevel: "warn" });
+    const save     = vi.spyOn(log, "save");
+    addLogSettings(document.createElement("div"), log, { onChange });
+
+    await (await lastDropdowns())[0].handler("debug");
+
+    log.child("sync").debug("visible");
+    expect(debugSpy).toHaveBeenCalledWith("plugin:sync", "visible");
+    expect(save).toHaveBeenCalledOnce();
+    expect(onChange).toHaveBeenCalledWith("debug");
+
+    debugSpy.mockRestore();
+  });
+
+  test("addLogSettings() renders a notice level dropdown", async () => {
+    vi.resetModules();
+
+    const { Log            } = await import("../lib/log");
+    const { addLogSettings } = await import("../lib/log.settings");
+
+    const containerEl = document.createElement("div");
+    const [ , setting ] = addLogSettings(containerEl, Log.init("plugin", { loglevel: "warn" })) as any[];
+
+    expect(setting.containerEl).toBe(containerEl);
+    expect(setting.setName).toHaveBeenCalledWith("Notice level");
+
+    const [ , dropdown ] = await lastDropdowns();
+    expect(Object.keys(dropdown.options)).toEqual([ "none", "error", "warn", "debug", "log", "info" ]);
+    // an omitted noticeLevel shows all notices
+    expect(dropdown.value).toBe("info");
+
+    addLogSettings(containerEl, Log.init("other", { loglevel: "warn", noticeLevel: "error" }));
+    expect((await lastDropdowns())[1].value).toBe("error");
+  });
+
+  test("selecting a notice level applies it, persists it and calls onNoticeChange", async () => {
+    vi.resetModules();
+
+    const { Log            } = await import("../lib/log");
+    const { addLogSettings } = await import("../lib/log.settings");
+
+    const onChange       = vi.fn();
+    const onNoticeChange = vi.fn();
+    const log            = Log.init("plugin", { loglevel: "warn" });
+    const save           = vi.spyOn(log, "save");
+    addLogSettings(document.createElement("div"), log, { onChange, onNoticeChange });
+
+    const [ , dropdown ] = await lastDropdowns();
+    await dropdown.handler("warn");
+
+    expect(log.getSettings().noticeLevel).toBe("warn");
+    expect(save).toHaveBeenCalledOnce();
+    expect(onNoticeChange).toHaveBeenCalledWith("warn");
+    expect(onChange).not.toHaveBeenCalled();
+
+    await dropdown.handler("warn");
+    await dropdown.handler("verbose");
+    expect(save).toHaveBeenCalledOnce();
+  });
+
+  test("a failing save or callback is logged instead of rejecting", async () => {
+    vi.resetModules();
+
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { Log            } = await import("../lib/log");
+    const { addLogSettings } = await import("../lib/log.settings");
+
+    const failure  = new Error("disk full");
+    const onChange = vi.fn(async () => { throw new Error("callback failed"); });
+    const log      = Log.init("plugin", { loglevel: "warn" });
+    vi.spyOn(log, "save").mockRejectedValueOnce(failure);
+    addLogSettings(document.createElement("div"), log, { onChange });
+
+    const [ level, notice ] = await lastDropdowns();
+    await expect(notice.handler("error")).resolves.toBeUndefined();
+    await expect(level.handler("debug")).resolves.toBeUndefined();
+
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+    expect(errorSpy.mock.calls[0]).toEqual([ "plugin", "Failed to save the log settings", failure ]);
+    expect(String(errorSpy.mock.calls[1][2])).toContain("callback failed");
+
+    errorSpy.mockRestore();
+  });
+
+  test("invalid values are ignored", async () => {
+    vi.resetModules();
+
+    const { Log            } = await import("../lib/log");
+    const { addLogSettings } = await import("../lib/log.settings");
+
+    const onChange = vi.fn();
+    const log      = Log.init("plugin", { loglevel: "warn" });
+    addLogSettings(document.createElement("div"), log, { onChange });
+
+    await (await lastDropdowns())[0].handler("verbose");
+
+    expect(log.getSettings().loglevel).toBe("warn");
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("elevate() raises the effective level and logs the session start", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.elevate("debug", { durationMs: 1000 });
+
+    expect(log.isElevated()).toBe(true);
+    expect(debugSpy).toHaveBeenCalledWith("plugin", "Log level elevated", "level=debug durationMs=1000");
+
+    log.child("sync").debug("visible");
+    expect(debugSpy).toHaveBeenCalledWith("plugin:sync", "visible");
+
+    debugSpy.mockRestore();
+  });
+
+  test("elevate() does not modify the persisted settings", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const settings = { loglevel: "warn" as const };
+    const log      = Log.init("plugin", settings);
+    log.elevate("debug");
+
+    expect(settings.loglevel).toBe("warn");
+    expect(log.getSettings()).toEqual({ loglevel: "warn" });
+
+    debugSpy.mockRestore();
+  });
+
+  test("elevate() reverts automatically and logs the session end", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.elevate("debug", { durationMs: 1000 });
+
+    vi.advanceTimersByTime(999);
+    expect(log.isElevated()).toBe(true);
+
+    vi.advanceTimersByTime(1);
+    expect(log.isElevated()).toBe(false);
+    expect(debugSpy).toHaveBeenCalledWith("plugin", "Log level restored", "level=warn");
+
+    debugSpy.mockClear();
+    log.debug("hidden");
+    expect(debugSpy).not.toHaveBeenCalled();
+
+    debugSpy.mockRestore();
+  });
+
+  test("elevate() uses a default duration", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.elevate("debug");
+
+    vi.advanceTimersByTime(15 * 60 * 1000);
+    expect(log.isElevated()).toBe(false);
+
+    debugSpy.mockRestore();
+  });
+
+  test("elevate() with durationMs Infinity lasts until restore()", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.elevate("debug", { durationMs: Infinity });
+
+    vi.advanceTimersByTime(7 * 24 * 60 * 60 * 1000);
+    expect(log.isElevated()).toBe(true);
+
+    log.restore();
+    expect(log.isElevated()).toBe(false);
+
+    debugSpy.mockRestore();
+  });
+
+  test("restore() ends the session early", async () => {
+    vi.resetModules();
+
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "error" });
+    log.elevate("log");
+    log.child("ui").restore();
+
+    expect(log.isElevated()).toBe(false);
+    expect(logSpy).toHaveBeenCalledWith("plugin", "Log level restored", "level=error");
+    expect(vi.getTimerCount()).toBe(0);
+
+    logSpy.mockRestore();
+  });
+
+  test("restore() without elevation does nothing", async () => {
+    vi.resetModules();
+
+    const write = vi.fn();
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "none" });
+    log.addTransport({ level: "info", write });
+    log.restore();
+
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  test("elevate() never lowers the effective level", async () => {
+    vi.resetModules();
+
+    const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "info" });
+    log.elevate("error");
+
+    log.info("still visible");
+    expect(infoSpy).toHaveBeenCalledWith("plugin", "still visible");
+
+    infoSpy.mockRestore();
+  });
+
+  test("elevate() again replaces the running session", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const infoSpy  = vi.spyOn(console, "info" ).mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.elevate("debug", { durationMs: 1000 });
+    log.elevate("info",  { durationMs: 5000 });
+
+    expect(vi.getTimerCount()).toBe(1);
+    vi.advanceTimersByTime(1000);
+    expect(log.isElevated()).toBe(true);
+
+    vi.advanceTimersByTime(4000);
+    expect(log.isElevated()).toBe(false);
+
+    debugSpy.mockRestore();
+    infoSpy.mockRestore();
+  });
+
+  test("elevate() ignores 'none' and invalid levels", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.elevate("none");
+    log.elevate("verbose" as any);
+
+    expect(log.isElevated()).toBe(false);
+  });
+
+  test("dispose() cancels the elevation", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.elevate("debug");
+    log.dispose();
+
+    expect(log.isElevated()).toBe(false);
+    expect(vi.getTimerCount()).toBe(0);
+
+    debugSpy.mockRestore();
+  });
+});
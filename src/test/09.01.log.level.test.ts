@@ -0,0 +1,163 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  test("getLevel() returns the configured level", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+
+    expect(log.getLevel()).toBe("warn");
+    expect(log.child("sync").getLevel()).toBe("warn");
+  });
+
+  test("getLevel() does not reflect a temporary elevation", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.elevate("debug");
+
+    expect(log.getLevel()).toBe("warn");
+
+    log.restore();
+    debugSpy.mockRestore();
+  });
+
+  test("setLevel() applies a valid level to all loggers", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const settings = { loglevel: "warn" as const };
+    const log      = Log.init("plugin", settings);
+
+    expect(log.child("sync").setLevel("debug")).toBe(true);
+    expect(log.getLevel()).toBe("debug");
+    expect(settings.loglevel).toBe("debug");
+
+    log.child("ui").debug("visible");
+    expect(debugSpy).toHaveBeenCalledWith("plugin:ui", "visible");
+
+    debugSpy.mockRestore();
+  });
+
+  test("setLevel() rejects invalid levels", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const listener = vi.fn();
+    const log      = Log.init("plugin", { loglevel: "warn" });
+    log.onLevelChange(listener);
+
+    expect(log.setLevel("verbose" as any)).toBe(false);
+    expect(log.getLevel()).toBe("warn");
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("onLevelChange() notifies listeners with new and previous level", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const listener = vi.fn();
+    const log      = Log.init("plugin", { loglevel: "warn" });
+    log.child("status").onLevelChange(listener);
+
+    log.setLevel("error");
+    log.setLevel("error");
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledWith("error", "warn");
+  });
+
+  test("onLevelChange() returns a function that unregisters the listener", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const listener = vi.fn();
+    const log      = Log.init("plugin", { loglevel: "warn" });
+    const off      = log.onLevelChange(listener);
+
+    off();
+    log.setLevel("error");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("Log.reinit() notifies listeners if the level changes", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const listener = vi.fn();
+    Log.init("plugin", { loglevel: "warn" }).onLevelChange(listener);
+
+    Log.reinit("plugin", { loglevel: "warn" });
+    Log.reinit("plugin", { loglevel: "log" });
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledWith("log", "warn");
+  });
+
+  test("a failing listener is reported and does not affect others", async () => {
+    vi.resetModules();
+
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const failure = new Error("boom");
+    const healthy = vi.fn();
+    const log     = Log.init("plugin", { loglevel: "warn" });
+    log.onLevelChange(() => { throw failure; });
+    log.onLevelChange(healthy);
+
+    expect(log.setLevel("error")).toBe(true);
+    expect(healthy).toHaveBeenCalledOnce();
+    expect(errorSpy).toHaveBeenCalledWith("plugin", "Log level listener failed:", failure);
+
+    errorSpy.mockRestore();
+  });
+
+  test("dispose() removes all listeners", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+
+    const listener = vi.fn();
+    const log      = Log.init("plugin", { loglevel: "warn" });
+    log.onLevelChange(listener);
+
+    log.dispose();
+    log.setLevel("error");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("Log.init() does not mutate invalid settings", async () => {
+    vi.resetModules();
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const settings = { loglevel: "verbose" as any };
+    const log      = Log.init("plugin", settings);
+
+    expect(settings.loglevel).toBe("verbose");
+    expect(log.getLevel()).toBe("info");
+
+    warnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,138 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const spies: { mockRestore(): void }[] = [];
+
+  beforeEach(() => {
+    for (const method of [ "debug", "log", "info", "warn", "error" ] as const) {
+      spies.push(vi.spyOn(console, method).mockImplementation(() => {}));
+    }
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  test("thunks of disabled levels are never called", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+    const log     = Log.init("plugin", { loglevel: "warn" });
+    const thunk   = vi.fn(() => [ "State:", { notes: 1200 } ]);
+
+    log.debug(thunk);
+    log.log(thunk);
+    log.info(thunk);
+
+    expect(thunk).not.toHaveBeenCalled();
+    expect(console.debug).not.toHaveBeenCalled();
+  });
+
+  test("thunks of enabled levels are called once and spread into the arguments", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+    const log     = Log.init("plugin", { loglevel: "info" });
+    const thunk   = vi.fn(() => [ "State:", { notes: 1200 } ]);
+
+    log.debug(thunk);
+    log.warn(() => "Slow response");
+
+    expect(thunk).toHaveBeenCalledTimes(1);
+    expect(console.debug).toHaveBeenCalledWith("plugin", "State:", { notes: 1200 });
+    expect(console.warn).toHaveBeenCalledWith("plugin", "Slow response");
+  });
+
+  test("error() evaluates a thunk for its additional data", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+    const error   = new Error("offline");
+
+    Log.init("plugin", { loglevel: "error" }).error(error, () => [ "Sync failed after", 3, "retries" ]);
+    expect(console.error).toHaveBeenCalledWith("plugin", "Sync failed after", 3, "retries", error);
+
+    const thunk = vi.fn();
+    Log.reinit("plugin", { loglevel: "none" }).error(error, thunk);
+    expect(thunk).not.toHaveBeenCalled();
+  });
+
+  test("thunks are evaluated for transports and the buffer below the console level", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+    const log     = Log.init("plugin", { loglevel: "warn", buffer: { level: "debug" } });
+
+    log.debug(() => [ "Indexed", 12 ]);
+
+    expect(console.debug).not.toHaveBeenCalled();
+    expect(log.getRecent().map((record) => record.args)).toEqual([ [ "Indexed", 12 ] ]);
+  });
+
+  test("a throwing thunk is reported instead of its message", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+    const error   = new Error("not ready");
+
+    expect(() => Log.init("plugin", { loglevel: "info" }).info(() => { throw error; })).not.toThrow();
+    expect(console.info).toHaveBeenCalledWith("plugin", "Failed to evaluate log message:", error);
+  });
+
+  test("functions among other arguments are logged as they are", async () => {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+    const handler = () => {};
+
+    Log.init("plugin", { loglevel: "info" }).info("Handler:", handler);
+    expect(console.info).toHaveBeenCalledWith("plugin", "Handler:", handler);
+  });
+
+  describe("isLevelEnabled()", () => {
+    test("follows the console level, namespace rules and elevations", async () => {
+      vi.resetModules();
+
+      const { Log } = await import("../lib/log");
+      const log     = Log.init("plugin", { loglevel: "warn", namespaces: { "sync": "debug" } });
+
+      expect(log.isLevelEnabled("error")).toBe(true);
+      expect(log.isLevelEnabled("warn")).toBe(true);
+      expect(log.isLevelEnabled("debug")).toBe(false);
+      expect(log.child("sync").isLevelEnabled("debug")).toBe(true);
+
+      log.elevate("info");
+      expect(log.isLevelEnabled("info")).toBe(true);
+      log.restore();
+      expect(log.isLevelEnabled("info")).toBe(false);
+    });
+
+    test("includes levels accepted by transports only", async () => {
+      vi.resetModules();
+
+      const { Log } = await import("../lib/log");
+      const log     = Log.init("plugin", { loglevel: "error" });
+
+      expect(log.isLevelEnabled("log")).toBe(false);
+
+      const remove = log.addTransport({ level: "log", write: () => {} });
+      expect(log.isLevelEnabled("log")).toBe(true);
+      expect(log.isLevelEnabled("info")).toBe(false);
+
+      remove();
+      expect(log.isLevelEnabled("log")).toBe(false);
+    });
+
+    test("rejects 'none' and unknown levels", async () => {
+      vi.resetModules();
+
+      const { Log } = await import("../lib/log");
+      const log     = Log.init("plugin", { loglevel: "info" });
+
+      expect(log.isLevelEnabled("none" as any)).toBe(false);
+      expect(log.isLevelEnabled("verbose" as any)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+import { LogBuffer     } from "../lib/log.buffer";
+import type { LogBufferSettings,
+              LogRecord } from "../lib/types";
+
+/**
+ * Creates a minimal record for buffer tests.
+ */
+function record(index: number, level: LogRecord["level"] = "info", namespace?: string): LogRecord {
+  return { level, pluginname: "plugin", namespace, timestamp: index, args: [ `#${index}` ] };
+}
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  test("keeps records in chronological order", () => {
+    const buffer = new LogBuffer(() => ({ size: 5 }));
+
+    [ 1, 2, 3 ].forEach((i) => buffer.write(record(i)));
+
+    expect(buffer.getRecent().map((r) => r.timestamp)).toEqual([ 1, 2, 3 ]);
+  });
+
+  test("drops the oldest records when full", () => {
+    const buffer = new LogBuffer(() => ({ size: 3 }));
+
+    [ 1, 2, 3, 4, 5 ].forEach((i) => buffer.write(record(i)));
+
+    expect(buffer.getRecent().map((r) => r.timestamp)).toEqual([ 3, 4, 5 ]);
+  });
+
+  test("defaults to 100 records and no own level", () => {
+    const buffer = new LogBuffer(() => undefined);
+
+    for (let i = 1; i <= 150; i++) buffer.write(record(i));
+
+    expect(buffer.size).toBe(100);
+    expect(buffer.level).toBeUndefined();
+    expect(buffer.getRecent()[0].timestamp).toBe(51);
+  });
+
+  test("reads size and level from the live settings", () => {
+    const settings: LogBufferSettings = { size: 4, level: "debug" };
+    const buffer   = new LogBuffer(() => settings);
+
+    [ 1, 2, 3, 4, 5, 6 ].forEach((i) => buffer.write(record(i)));
+    expect(buffer.level).toBe("debug");
+
+    settings.size = 2;
+    buffer.write(record(7));
+    expect(buffer.getRecent().map((r) => r.timestamp)).toEqual([ 6, 7 ]);
+
+    settings.size = 3;
+    buffer.write(record(8));
+    buffer.write(record(9));
+    expect(buffer.getRecent().map((r) => r.timestamp)).toEqual([ 7, 8, 9 ]);
+  });
+
+  test("size 0 or invalid sizes disable the buffer", () => {
+    const settings: LogBufferSettings = { size: 2 };
+    const buffer   = new LogBuffer(() => settings);
+    buffer.write(record(1));
+
+    settings.size = 0;
+    buffer.write(record(2));
+    expect(buffer.getRecent()).toEqual([]);
+
+    settings.size = NaN;
+    expect(buffer.size).toBe(0);
+  });
+
+  test("getRecent() filters by level, namespace, since, text and limit", () => {
+    const buffer = new LogBuffer(() => ({ size: 10 }));
+    buffer.write(record(1, "debug", "sync:remote"));
+    buffer.write(record(2, "warn",  "sync:local"));
+    buffer.write(record(3, "error"));
+    buffer.write(record(4, "error", "indexer"));
+
+    expect(buffer.getRecent({ level: "warn" }).map((r) => r.timestamp)).toEqual([ 2, 3, 4 ]);
+    expect(buffer.getRecent({ namespace: "sync:*" }).map((r) => r.timestamp)).toEqual([ 1, 2 ]);
+    expect(buffer.getRecent({ since: 3 }).map((r) => r.timestamp)).toEqual([ 3, 4 ]);
+    expect(buffer.getRecent({ text: "#3" }).map((r) => r.timestamp)).toEqual([ 3 ]);
+    expect(buffer.getRecent({ limit: 2 }).map((r) => r.timestamp)).toEqual([ 3, 4 ]);
+    expect(buffer.getRecent({ limit: 0 })).toEqual([]);
+    expect(buffer.getRecent({ level: "error", limit: 1 }).map((r) => r.timestamp)).toEqual([ 4 ]);
+  });
+
+  test("getRecent() returns a copy", () => {
+    const buffer = new LogBuffer(() => ({ size: 10 }));
+    buffer.write(record(1));
+
+    buffer.getRecent().pop();
+
+    expect(buffer.getRecent()).toHaveLength(1);
+  });
+
+  test("clear() removes all records", () => {
+    const buffer = new LogBuffer(() => ({ size: 2 }));
+    [ 1, 2, 3 ].forEach((i) => buffer.write(record(i)));
+
+    buffer.clear();
+    buffer.write(record(4));
+
+    expect(buffer.getRecent().map((r) => r.timestamp)).toEqual([ 4 ]);
+  });
+});
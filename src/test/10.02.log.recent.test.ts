@@ -0,0 +1,117 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  test("getRecent() returns records of all loggers of the plugin", async () => {
+    vi.resetModules();
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.warn("root");
+    log.child("sync").warn("child");
+    log.debug("dropped");
+
+    expect(log.child("ui").getRecent().map((r) => r.args)).toEqual([ [ "root" ], [ "child" ] ]);
+
+    warnSpy.mockRestore();
+  });
+
+  test("buffer level captures records below the console threshold", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn", buffer: { level: "debug" } });
+    log.debug("captured");
+
+    expect(debugSpy).not.toHaveBeenCalled();
+    expect(log.getRecent({ level: "debug" })).toHaveLength(1);
+
+    debugSpy.mockRestore();
+  });
+
+  test("clear() empties the buffer", async () => {
+    vi.resetModules();
+
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "error" });
+    log.error(new Error("boom"));
+    log.clear();
+
+    expect(log.getRecent()).toEqual([]);
+
+    errorSpy.mockRestore();
+  });
+
+  test("dump() replays records with original prefix, level and timestamp", async () => {
+    vi.resetModules();
+
+    const debugSpy = vi.spyOn(console, "debug").mockImplementation(() => {});
+    const warnSpy  = vi.spyOn(console, "warn" ).mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn", buffer: { level: "debug" } });
+    log.child("sync").event("debug", "Connecting", { remote: "origin" });
+    log.warn("careful");
+
+    const [ first, second ] = log.getRecent();
+    log.dump();
+
+    expect(debugSpy).toHaveBeenCalledWith("plugin:sync", new Date(first.timestamp).toISOString(), "Connecting", "remote=origin");
+    expect(warnSpy).toHaveBeenCalledWith("plugin", new Date(second.timestamp).toISOString(), "careful");
+
+    // replayed output is not captured again
+    expect(log.getRecent()).toHaveLength(2);
+
+    debugSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  test("dump() applies the filter", async () => {
+    vi.resetModules();
+
+    const warnSpy  = vi.spyOn(console, "warn" ).mockImplementation(() => {});
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn" });
+    log.warn("careful");
+    log.error(new Error("boom"));
+
+    warnSpy.mockClear();
+    errorSpy.mockClear();
+    log.dump({ level: "error" });
+
+    expect(warnSpy).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledOnce();
+
+    warnSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  test("buffer size 0 disables capturing", async () => {
+    vi.resetModules();
+
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { Log } = await import("../lib/log");
+
+    const log = Log.init("plugin", { loglevel: "warn", buffer: { size: 0 } });
+    log.warn("careful");
+
+    expect(log.getRecent()).toEqual([]);
+
+    warnSpy.mockRestore();
+  });
+});
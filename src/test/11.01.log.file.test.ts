@@ -0,0 +1,194 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+import { LogFileTransport } from "../lib/log.file";
+import type { LogRecord     } from "../lib/types";
+import { createPlugin     } from "./__mocks__/plugin";
+
+/**
+ * Creates a minimal in-memory stand-in for an Obsidian `DataAdapter`.
+ */
+function createAdapter() {
+  const files   = new Map<string, string>();
+  const folders = new Set<string>();
+  const adapter = {
+    files,
+    exists: vi.fn(async (p: string) => files.has(p) || folders.has(p)),
+    mkdir:  vi.fn(async (p: string) => { folders.add(p); }),
+    append: vi.fn(async (p: string, data: string) => { files.set(p, (files.get(p) ?? "") + data); }),
+    stat:   vi.fn(async (p: string) => files.has(p) ? { size: (files.get(p) as string).length } : null),
+    list:   vi.fn(async (p: string) => ({ files: [ ...files.keys() ].filter((f) => f.startsWith(`${p}/`)), folders: [] })),
+    remove: vi.fn(async (p: string) => { files.delete(p); }),
+  };
+  return adapter;
+}
+
+/**
+ * Creates a minimal stand-in for an Obsidian `Plugin` backed by an in-memory adapter.
+ */
+function createFilePlugin(adapter = createAdapter()) {
+  return createPlugin({ app: { vault: { adapter, configDir: ".obsidian" } } });
+}
+
+/**
+ * Creates a record at the given local date and time.
+ */
+function record(message: string, date = new Date(2026, 0, 31, 12)): LogRecord {
+  return { level: "info", pluginname: "my-plugin", timestamp: date.getTime(), args: [ message ] };
+}
+
+const DIR = ".obsidian/plugins/my-plugin/logs";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  test("appends batched records as JSON lines to the plugin's logs folder", async () => {
+    const adapter   = createAdapter();
+    const transport = new LogFileTransport(createFilePlugin(adapter) as any, { level: "debug" });
+
+    transport.write(record("first"));
+    transport.write(record("second"));
+    expect(adapter.append).not.toHaveBeenCalled();
+
+    await transport.flush();
+
+    expect(transport.level).toBe("debug");
+    expect(adapter.mkdir).toHaveBeenCalledWith(DIR);
+    expect(adapter.append).toHaveBeenCalledTimes(1);
+
+    const lines = (adapter.files.get(`${DIR}/2026-01-31.jsonl`) as string).trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines.map((l) => l.args[0])).toEqual([ "first", "second" ]);
+    expect(lines[0]).toMatchObject({ level: "info", pluginname: "my-plugin", time: new Date(2026, 0, 31, 12).toISOString() });
+  });
+
+  test("falls back to the config directory if the manifest has no dir", async () => {
+    const plugin = createFilePlugin();
+    delete (plugin.manifest as any).dir;
+
+    expect(new LogFileTransport(plugin as any).dir).toBe(DIR);
+  });
+
+  test("flushes automatically after the flush interval", async () => {
+    vi.useFakeTimers();
+
+    const adapter   = createAdapter();
+    const transport = new LogFileTransport(createFilePlugin(adapter) as any, { flushIntervalMs: 500 });
+
+    transport.write(record("delayed"));
+    await vi.advanceTimersByTimeAsync(499);
+    expect(adapter.append).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(adapter.files.get(`${DIR}/2026-01-31.jsonl`)).toContain("delayed");
+
+    vi.useRealTimers();
+  });
+
+  test("starts a new file for every day", async () => {
+    const adapter   = createAdapter();
+    const transport = new LogFileTransport(createFilePlugin(adapter) as any);
+
+    transport.write(record("day 1", new Date(2026, 0, 31, 23, 59)));
+    transport.write(record("day 2", new Date(2026, 1, 1, 0, 1)));
+    await transport.flush();
+
+    expect(adapter.files.get(`${DIR}/2026-01-31.jsonl`)).toContain("day 1");
+    expect(adapter.files.get(`${DIR}/2026-02-01.jsonl`)).toContain("day 2");
+  });
+
+  test("rotates by size and removes files beyond the retention limit", async () => {
+    const adapter   = createAdapter();
+    const transport = new LogFileTransport(createFilePlugin(adapter) as any, { maxFileSize: 200, maxFiles: 2 });
+
+    for (let i = 0; i < 6; i++) transport.write(record(`message ${i}`));
+    await transport.flush();
+
+    const names = [ ...adapter.files.keys() ].map((p) => p.split("/").pop());
+    expect(names).toHaveLength(2);
+    expect(names).toContain("2026-01-31.5.jsonl");
+    expect(adapter.files.get(`${DIR}/2026-01-31.5.jsonl`)).toContain("message 5");
+    expect(adapter.files.has(`${DIR}/2026-01-31.jsonl`)).toBe(false);
+  });
+
+  test("continues the most recent existing file of the day", async () => {
+    const adapter = createAdapter();
+    adapter.files.set(`${DIR}/2026-01-31.jsonl`,   "old\n");
+    adapter.files.set(`${DIR}/2026-01-31.1.jsonl`, "older\n");
+    adapter.files.set(`${DIR}/notes.txt`,          "unrelated");
+
+    const transport = new LogFileTransport(createFilePlugin(adapter) as any);
+    transport.write(record("new"));
+    await transport.flush();
+
+    expect(adapter.files.get(`${DIR}/2026-01-31.1.jsonl`)).toMatch(/^older\n.*new/s);
+    expect(adapter.files.get(`${DIR}/notes.txt`)).toBe("unrelated");
+  });
+
+  test("serializes errors and circular values", async () => {
+    const adapter   = createAdapter();
+    const transport = new LogFileTransport(createFilePlugin(adapter) as any);
+    const circular: Record<string, unknown> = { name: "loop" };
+    circular.self = circular;
+
+    transport.write({ ...record("failure"), args: [ new Error("boom"), circular ] });
+    await transport.flush();
+
+    const line = JSON.parse(adapter.files.get(`${DIR}/2026-01-31.jsonl`) as string);
+    expect(line.args[0]).toMatchObject({ name: "Error", message: "boom" });
+    expect(line.args[1]).toEqual({ name: "loop", self: "[Circular]" });
+  });
+
+  test("flushes on plugin unload and ignores later records", async () => {
+    const adapter   = createAdapter();
+    const plugin    = createFilePlugin(adapter);
+    const transport = new LogFileTransport(plugin as any);
+
+    transport.write(record("before unload"));
+    plugin.unload();
+    transport.write(record("after unload"));
+    transport.dispose();
+    await transport.flush();
+
+    const content = adapter.files.get(`${DIR}/2026-01-31.jsonl`) as string;
+    expect(content).toContain("before unload");
+    expect(content).not.toContain("after unload");
+    expect(adapter.append).toHaveBeenCalledTimes(1);
+  });
+
+  test("reports write failures to the console", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const adapter   = createAdapter();
+    adapter.append.mockRejectedValueOnce(new Error("disk full"));
+    const transport = new LogFileTransport(createFilePlugin(adapter) as any);
+
+    transport.write(record("lost"));
+    await transport.flush();
+    transport.write(record("kept"));
+    await transport.flush();
+
+    expect(errorSpy).toHaveBeenCalledWith("my-plugin", "Log archive failed:", expect.any(Error));
+    expect(adapter.files.get(`${DIR}/2026-01-31.jsonl`)).toContain("kept");
+
+    errorSpy.mockRestore();
+  });
+
+  test("receives records from a logger", async () => {
+    vi.resetModules();
+
+    const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+
+    const { Log }  = await import("../lib/log");
+    const adapter  = createAdapter();
+    const log      = Log.init("file-plugin", { loglevel: "info" });
+    const file     = new LogFileTransport(createFilePlugin(adapter) as any);
+
+    log.addTransport(file);
+    log.child("sync").event("info", "Synced", { files: 3 });
+    log.dispose();
+    await file.flush();
+
+    const [ content ] = [ ...adapter.files.values() ];
+    expect(JSON.parse(content)).toMatchObject({ namespace: "sync", message: "Synced", fields: { files: 3 } });
+
+    infoSpy.mockRestore();
+  });
+});
@@ -0,0 +1,193 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+import { LogNoteTransport } from "../lib/log.note";
+import type { LogRecord     } from "../lib/types";
+import { createPlugin     } from "./__mocks__/plugin";
+
+/**
+ * Creates a minimal in-memory stand-in for an Obsidian `Vault`.
+ */
+function createVault(files: Record<string, string> = {}) {
+  const contents = new Map(Object.entries(files));
+  const folders  = new Set<string>();
+  const vault    = {
+    contents,
+    getAbstractFileByPath: vi.fn((p: string) =>
+      contents.has(p) ? { path: p, extension: p.split(".").pop() } :
+      folders.has(p)  ? { path: p, children: [] } : null),
+    process:      vi.fn(async (file: { path: string }, fn: (data: string) => string) => {
+      const next = fn(contents.get(file.path) as string);
+      contents.set(file.path, next);
+      return next;
+    }),
+    create:       vi.fn(async (p: string, data: string) => { contents.set(p, data); }),
+    createFolder: vi.fn(async (p: string) => { folders.add(p); }),
+  };
+  return vault;
+}
+
+/**
+ * Creates a minimal stand-in for an Obsidian `Plugin` backed by an in-memory vault.
+ */
+function createNotePlugin(vault = createVault()) {
+  return createPlugin({ app: { vault } });
+}
+
+/**
+ * Creates a record at the given local date and time.
+ */
+function record(level: LogRecord["level"], args: unknown[], date = new Date(2026, 0, 31, 12), extra: Partial<LogRecord> = {}): LogRecord {
+  return { level, pluginname: "my-plugin", timestamp: date.getTime(), args, ...extra };
+}
+
+const NOTE = "Logs/My Plugin.md";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  test("creates the note and its folder with a daily heading", async () => {
+    const vault     = createVault();
+    const transport = new LogNoteTransport(createNotePlugin(vault) as any, { path: NOTE, level: "info" });
+
+    transport.write(record("info", [ "Generated index" ]));
+    transport.write(record("info", [ "Sync finished" ], new Date(2026, 0, 31, 12, 5)));
+    await transport.flush();
+
+    expect(transport.level).toBe("info");
+    expect(vault.createFolder).toHaveBeenCalledWith("Logs");
+    expect(vault.contents.get(NOTE)).toBe(
+      "## 2026-01-31\n\n" +
+      "- 12:00:00 Generated index\n" +
+      "- 12:05:00 Sync finished\n"
+    );
+  });
+
+  test("renders errors and warnings as callouts", async () => {
+    const vault     = createVault();
+    const transport = new LogNoteTransport(createNotePlugin(vault) as any, { path: NOTE });
+
+    transport.write(record("info",  [ "Started" ]));
+    transport.write(record("warn",  [ "Slow response" ], undefined, { namespace: "sync" }));
+    transport.write(record("error", [ new Error("boom") ]));
+    transport.write(record("info",  [ "Done" ]));
+    await transport.flush();
+
+    expect(vault.contents.get(NOTE)).toBe(
+      "## 2026-01-31\n\n" +
+      "- 12:00:00 Started\n\n" +
+      "> [!warning] 12:00:00 sync: Slow response\n\n" +
+      "> [!error] 12:00:00 Error: boom\n\n" +
+      "- 12:00:00 Done\n"
+    );
+  });
+
+  test("appends to an existing note in one write and adds headings for new days", async () => {
+    const vault     = createVault({ [NOTE]: "# Activity\n\n## 2026-01-31\n\n- 08:00:00 Earlier" });
+    const transport = new LogNoteTransport(createNotePlugin(vault) as any, { path: NOTE });
+
+    transport.write(record("info", [ "Later" ]));
+    transport.write(record("info", [ "Next day" ], new Date(2026, 1, 1, 9)));
+    await transport.flush();
+
+    expect(vault.process).toHaveBeenCalledTimes(1);
+    expect(vault.create).not.toHaveBeenCalled();
+    expect(vault.contents.get(NOTE)).toBe(
+      "# Activity\n\n## 2026-01-31\n\n- 08:00:00 Earlier\n" +
+      "- 12:00:00 Later\n\n" +
+      "## 2026-02-01\n\n" +
+      "- 09:00:00 Next day\n"
+    );
+  });
+
+  test("turns paths of existing files into wikilinks", async () => {
+    const vault     = createVault({ "Projects/a.md": "", "assets/img.png": "" });
+    const transport = new LogNoteTransport(createNotePlugin(vault) as any, { path: NOTE });
+
+    transport.write(record("info", [ "Renamed note" ], undefined,
+      { message: "Renamed note", fields: { from: "Inbox/a.md", to: "Projects/a.md", count: 1 } }));
+    transport.write(record("info", [ "Embedded assets/img.png into [[Projects/a]]" ]));
+    await transport.flush();
+
+    expect(vault.contents.get(NOTE)).toContain("- 12:00:00 Renamed note from=Inbox/a.md to=[[Projects/a]] count=1\n");
+    expect(vault.contents.get(NOTE)).toContain("- 12:00:00 Embedded [[assets/img.png]] into [[Projects/a]]\n");
+  });
+
+  test("linkify: false keeps paths verbatim", async () => {
+    const vault     = createVault({ "Projects/a.md": "" });
+    const transport = new LogNoteTransport(createNotePlugin(vault) as any, { path: NOTE, linkify: false });
+
+    transport.write(record("info", [ "Opened Projects/a.md" ]));
+    await transport.flush();
+
+    expect(vault.contents.get(NOTE)).toContain("- 12:00:00 Opened Projects/a.md\n");
+  });
+
+  test("batches records until the flush interval elapses", async () => {
+    vi.useFakeTimers();
+
+    const vault     = createVault();
+    const transport = new LogNoteTransport(createNotePlugin(vault) as any, { path: NOTE, flushIntervalMs: 1000 });
+
+    transport.write(record("info", [ "one" ]));
+    transport.write(record("info", [ "two" ]));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(vault.create).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(vault.create).toHaveBeenCalledTimes(1);
+
+    vi.useRealTimers();
+  });
+
+  test("flushes on plugin unload", async () => {
+    const vault     = createVault();
+    const plugin    = createNotePlugin(vault);
+    const transport = new LogNoteTransport(plugin as any, { path: NOTE });
+
+    transport.write(record("info", [ "before unload" ]));
+    plugin.unload();
+    transport.write(record("info", [ "after unload" ]));
+    await transport.flush();
+
+    expect(vault.contents.get(NOTE)).toContain("before unload");
+    expect(vault.contents.get(NOTE)).not.toContain("after unload");
+  });
+
+  test("only receives records passing its level from a logger", async () => {
+    vi.resetModules();
+
+    const infoSpy = vi.spyOn(console, "info").mockImplementation(() => {});
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { Log }     = await import("../lib/log");
+    const vault       = createVault();
+    const transport   = new LogNoteTransport(createNotePlugin(vault) as any, { path: NOTE, level: "warn" });
+    const log         = Log.init("note-plugin", { loglevel: "info" });
+
+    log.addTransport(transport);
+    log.info("not in the note");
+    log.warn("in the note");
+    await transport.flush();
+
+    expect(vault.contents.get(NOTE)).not.toContain("not in the note");
+    expect(vault.contents.get(NOTE)).toContain("> [!warning]");
+
+    log.dispose();
+    infoSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  test("reports write failures to the console", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const vault = createVault();
+    vault.create.mockRejectedValueOnce(new Error("read-only"));
+    const transport = new LogNoteTransport(createNotePlugin(vault) as any, { path: NOTE });
+
+    transport.write(record("info", [ "lost" ]));
+    await transport.flush();
+
+    expect(errorSpy).toHaveBeenCalledWith("my-plugin", "Log note failed:", expect.any(Error));
+
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,243 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+import { createPlugin } from "./__mocks__/plugin";
+
+/**
+ * Creates a plugin stand-in with a workspace; `leaf` is the leaf it hands out.
+ */
+function createViewPlugin() {
+  const leaf = { setViewState: vi.fn(async () => {}) };
+  return Object.assign(createPlugin({
+    app: {
+      workspace: {
+        getLeavesOfType: vi.fn((): unknown[] => []),
+        getRightLeaf:    vi.fn(() => leaf),
+        getLeaf:         vi.fn(() => leaf),
+        revealLeaf:      vi.fn(async () => {}),
+      },
+    },
+  }), { leaf });
+}
+
+/**
+ * Imports fresh modules and opens a view on a new logger.
+ */
+async function openView(options = {}) {
+  vi.resetModules();
+
+  const { Log }             = await import("../lib/log");
+  const { registerLogView } = await import("../lib/log.view");
+
+  const log    = Log.init("view-plugin", { loglevel: "info" });
+  const plugin = createViewPlugin();
+
+  registerLogView(plugin as any, log, options);
+
+  const [ type, create ] = plugin.registerView.mock.calls[0];
+  const view             = create({});
+  await view.onOpen();
+
+  return { log, plugin, type, view };
+}
+
+/**
+ * Returns the rendered message texts of a view.
+ */
+function messages(view: any): string[] {
+  return [ ...view.contentEl.querySelectorAll(".log-view-message") ].map((el: any) => el.textContent);
+}
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const spies: { mockRestore(): void }[] = [];
+
+  beforeEach(() => {
+    for (const method of [ "debug", "log", "info", "warn", "error" ] as const) {
+      spies.push(vi.spyOn(console, method).mockImplementation(() => {}));
+    }
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  test("registers a view type derived from the manifest id", async () => {
+    const { type, view } = await openView();
+
+    expect(type).toBe("my-plugin-log");
+    expect(view.getViewType()).toBe("my-plugin-log");
+    expect(view.getDisplayText()).toBe("Log");
+    expect(view.getIcon()).toBe("scroll-text");
+  });
+
+  test("shows buffered records and streams new ones", async () => {
+    vi.resetModules();
+
+    const { Log }             = await import("../lib/log");
+    const { registerLogView } = await import("../lib/log.view");
+
+    const log    = Log.init("view-plugin", { loglevel: "info" });
+    const plugin = createViewPlugin();
+
+    log.info("before open");
+    registerLogView(plugin as any, log);
+
+    const view = plugin.registerView.mock.calls[0][1]({});
+    await view.onOpen();
+    log.child("sync").event("warn", "Slow", { ms: 900 });
+
+    expect(messages(view)).toEqual([ "before open", "Slow ms=900" ]);
+    expect(view.contentEl.querySelector(".log-view-warn .log-view-ns").textContent).toBe("sync");
+
+    await view.onClose();
+    log.info("after close");
+    expect(messages(view)).toHaveLength(2);
+  });
+
+  test("filters by level, namespace and text", async () => {
+    const { log, view } = await openView();
+
+    log.info("plain info");
+    log.child("sync").warn("sync warning");
+    log.child("ui").error(new Error("ui failure"));
+
+    view.setFilter({ level: "warn" });
+    expect(messages(view)).toEqual([ "sync warning", "Error: ui failure" ]);
+
+    view.setFilter({ namespace: "sync*" });
+    expect(messages(view)).toEqual([ "sync warning" ]);
+
+    view.setFilter({ level: undefined, namespace: undefined, text: "FAILURE" });
+    expect(messages(view)).toEqual([ "Error: ui failure" ]);
+
+    log.info("another failure");
+    expect(messages(view)).toEqual([ "Error: ui failure", "another failure" ]);
+  });
+
+  test("toolbar inputs update the filter", async () => {
+    const { log, view } = await openView();
+
+    log.info("alpha");
+    log.warn("beta");
+
+    const level = view.contentEl.querySelector(".log-view-level");
+    level.value = "warn";
+    level.dispatchEvent(new Event("change"));
+    expect(messages(view)).toEqual([ "beta" ]);
+
+    const text = view.contentEl.querySelector(".log-view-text");
+    text.value = "gamma";
+    text.dispatchEvent(new Event("input"));
+    expect(messages(view)).toEqual([]);
+  });
+
+  test("pause holds back new records until resumed", async () => {
+    const { log, view } = await openView();
+
+    log.info("one");
+    view.contentEl.querySelector(".log-view-pause").click();
+    log.info("two");
+
+    expect(view.isPaused()).toBe(true);
+    expect(messages(view)).toEqual([ "one" ]);
+    expect(view.contentEl.querySelector(".log-view-pause").textContent).toBe("Resume");
+
+    view.setPaused(false);
+    expect(messages(view)).toEqual([ "one", "two" ]);
+  });
+
+  test("copies selected records, or all visible records if none is selected", async () => {
+    const writeText = vi.fn(async (_text: string) => {});
+    Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+
+    const { log, view } = await openView();
+
+    log.info("first");
+    log.child("sync").warn("second");
+
+    await view.copy();
+    expect(writeText).toHaveBeenLastCalledWith(expect.stringMatching(/INFO first\n.* WARN sync: second$/));
+
+    view.contentEl.querySelectorAll(".log-view-row")[1].click();
+    expect(view.contentEl.querySelectorAll(".is-selected")).toHaveLength(1);
+
+    await view.copy();
+    expect(writeText).toHaveBeenLastCalledWith(expect.stringMatching(/^\S+ WARN sync: second$/));
+  });
+
+  test("a failure to copy is logged instead of rejecting", async () => {
+    Object.defineProperty(navigator, "clipboard", { value: { writeText: vi.fn(async () => { throw new Error("blocked"); }) }, configurable: true });
+
+    const { log, view } = await openView();
+    const error         = vi.spyOn(log, "error").mockImplementation(() => {});
+
+    await expect(view.copy()).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalledWith(expect.objectContaining({ message: "blocked" }), "Failed to copy log records");
+  });
+
+  test("clear empties the view but not the logger's buffer", async () => {
+    const { log, view } = await openView();
+
+    log.info("kept in buffer");
+    view.contentEl.querySelector(".log-view-clear").click();
+
+    expect(messages(view)).toEqual([]);
+    expect(log.getRecent()).toHaveLength(1);
+  });
+
+  test("drops the oldest records beyond maxRecords", async () => {
+    const { log, view } = await openView({ maxRecords: 2 });
+
+    [ "a", "b", "c" ].forEach((message) => log.info(message));
+
+    expect(messages(view)).toEqual([ "b", "c" ]);
+  });
+
+  test("the returned function opens the view in the right sidebar or reveals it", async () => {
+    vi.resetModules();
+
+    const { Log }             = await import("../lib/log");
+    const { registerLogView } = await import("../lib/log.view");
+
+    const plugin = createViewPlugin();
+    const open   = registerLogView(plugin as any, Log.init("view-plugin"), { type: "custom-log" });
+
+    await open();
+    expect(plugin.leaf.setViewState).toHaveBeenCalledWith({ type: "custom-log", active: true });
+    expect(plugin.app.workspace.revealLeaf).toHaveBeenCalledWith(plugin.leaf);
+
+    const existing = { setViewState: vi.fn() };
+    plugin.app.workspace.getLeavesOfType.mockReturnValue([ existing ]);
+
+    await open();
+    expect(existing.setViewState).not.toHaveBeenCalled();
+    expect(plugin.app.workspace.revealLeaf).toHaveBeenLastCalledWith(existing);
+  });
+
+  test("error and warning notices offer 'Open log' until the plugin unloads", async () => {
+    vi.resetModules();
+
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { Log }             = await import("../lib/log");
+    const { registerLogView } = await import("../lib/log.view");
+    const { Notice }          = await import("obsidian");
+
+    const plugin = createViewPlugin();
+    const log    = Log.init("view-plugin");
+    registerLogView(plugin as any, log);
+
+    log.notice("Sync failed", "error");
+    const button = (Notice as any).mock.instances.at(-1).messageEl.querySelector("button");
+    expect(button.textContent).toBe("Open log");
+
+    button.click();
+    await vi.waitFor(() => expect(plugin.app.workspace.revealLeaf).toHaveBeenCalledWith(plugin.leaf));
+
+    plugin.teardown.forEach((cb) => cb());
+    log.notice("Sync failed again", "error");
+    expect((Notice as any).mock.instances.at(-1).messageEl.querySelector("button")).toBeNull();
+
+    errorSpy.mockRestore();
+  });
+});
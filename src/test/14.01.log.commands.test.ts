@@ -0,0 +1,159 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+import { createPlugin } from "./__mocks__/plugin";
+
+/**
+ * Imports fresh modules and registers the commands of an attached logger.
+ */
+async function setup(data: unknown = { log: { loglevel: "warn" } }) {
+  vi.resetModules();
+
+  const { Log }            = await import("../lib/log");
+  const { addLogCommands } = await import("../lib/log.commands");
+  const obsidian: any      = await import("obsidian");
+
+  const plugin   = createPlugin({ data });
+  const log      = await Log.attach(plugin as any);
+  const commands = addLogCommands(plugin as any, log);
+  const command  = (id: string) => commands.find((c) => c.id === id) as any;
+
+  return { Log, log, plugin, commands, command, obsidian };
+}
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const spies: { mockRestore(): void }[] = [];
+
+  beforeEach(() => {
+    for (const method of [ "debug", "log", "info", "warn", "error" ] as const) {
+      spies.push(vi.spyOn(console, method).mockImplementation(() => {}));
+    }
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  test("registers the standard commands", async () => {
+    const { plugin, commands } = await setup();
+
+    expect(commands.map((c) => c.id)).toEqual([ "log-set-level", "log-toggle-debug", "log-copy-environment", "log-show-notifications" ]);
+    expect(commands.map((c) => c.name)).toEqual([
+      "Set log level…",
+      "Toggle debug logging for this session",
+      "Copy environment and log settings to clipboard",
+      "Show recent notifications",
+    ]);
+    expect(plugin.addCommand).toHaveBeenCalledTimes(4);
+  });
+
+  test("namespaces commands of loggers not named after the plugin", async () => {
+    vi.resetModules();
+
+    const { Log }            = await import("../lib/log");
+    const { addLogCommands } = await import("../lib/log.commands");
+
+    const commands = addLogCommands(createPlugin() as any, Log.init("sync-engine"));
+
+    expect(commands[0].id).toBe("log-sync-engine-set-level");
+    expect(commands[0].name).toBe("Set log level… (sync-engine)");
+  });
+
+  test("'Set log level…' opens a suggest modal that applies and saves the level", async () => {
+    const { log, plugin, command, obsidian } = await setup();
+
+    command("log-set-level").callback();
+
+    const modal = obsidian.SuggestModal.instances.at(-1);
+    expect(modal.opened).toBe(true);
+    expect(modal.getSuggestions("")).toEqual([ "none", "error", "warn", "debug", "log", "info" ]);
+    expect(modal.getSuggestions("WARN")).toEqual([ "warn" ]);
+
+    const el = document.createElement("div");
+    modal.renderSuggestion("warn", el);
+    expect(el.textContent).toBe("Warning (current)");
+
+    await modal.onChooseSuggestion("debug");
+    expect(log.getLevel()).toBe("debug");
+    expect(plugin.data).toEqual({ log: { loglevel: "debug" } });
+  });
+
+  test("'Toggle debug logging' elevates without timeout and restores on the next call", async () => {
+    vi.useFakeTimers();
+
+    const { log, plugin, command } = await setup();
+
+    command("log-toggle-debug").callback();
+    expect(log.isElevated()).toBe(true);
+
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(log.isElevated()).toBe(true);
+    expect(log.getLevel()).toBe("warn");
+
+    command("log-toggle-debug").callback();
+    expect(log.isElevated()).toBe(false);
+    expect(plugin.saveData).not.toHaveBeenCalled();
+
+    vi.useRealTimers();
+  });
+
+  test("the debug session ends on plugin unload", async () => {
+    vi.resetModules();
+
+    const { Log }            = await import("../lib/log");
+    const { addLogCommands } = await import("../lib/log.commands");
+
+    const plugin = createPlugin();
+    const log    = Log.init("my-plugin", { loglevel: "warn" });
+    const [ , toggle ] = addLogCommands(plugin as any, log);
+
+    (toggle as any).callback();
+    plugin.unload();
+
+    expect(log.isElevated()).toBe(false);
+    expect(log.getLevel()).toBe("warn");
+  });
+
+  test("'Copy environment' copies versions, platform and settings", async () => {
+    const writeText = vi.fn(async (_text: string) => {});
+    Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+
+    const { command } = await setup({ log: { loglevel: "warn", namespaces: { "sync:*": "debug" } } });
+
+    await command("log-copy-environment").callback();
+
+    const text = writeText.mock.calls[0][0] as string;
+    expect(text).toContain("- Plugin: my-plugin 1.2.3");
+    expect(text).toContain("- Obsidian: 1.8.0");
+    expect(text).toContain("- Platform: desktop, Linux");
+    expect(text).toContain("- Log level: warn");
+    expect(text).toContain('"sync:*": "debug"');
+  });
+
+  test("failures to save the level or to copy are logged instead of rejecting", async () => {
+    const failure = new Error("clipboard blocked");
+    Object.defineProperty(navigator, "clipboard", { value: { writeText: vi.fn(async () => { throw failure; }) }, configurable: true });
+
+    const { log, plugin, command, obsidian } = await setup();
+    plugin.saveData.mockRejectedValueOnce(new Error("disk full"));
+
+    command("log-set-level").callback();
+    await expect(obsidian.SuggestModal.instances.at(-1).onChooseSuggestion("error")).resolves.toBeUndefined();
+    await expect(command("log-copy-environment").callback()).resolves.toBeUndefined();
+
+    expect(log.getLevel()).toBe("error");
+    expect(console.error).toHaveBeenCalledWith("my-plugin", "Failed to save the log settings", expect.objectContaining({ message: "disk full" }));
+    expect(console.error).toHaveBeenCalledWith("my-plugin", "Failed to copy the environment", expect.objectContaining({ message: "clipboard blocked" }));
+  });
+
+  test("'Show recent notifications' opens the notification history", async () => {
+    const { command } = await setup();
+    const { LogNotificationModal } = await import("../lib/log.history");
+    const open = vi.spyOn(LogNotificationModal.prototype, "open");
+
+    command("log-show-notifications").callback();
+
+    expect(open).toHaveBeenCalledTimes(1);
+    open.mockRestore();
+  });
+});
@@ -0,0 +1,98 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+/**
+ * Imports fresh modules and opens the notification modal of a new logger.
+ */
+async function setup(notify: (log: any) => void = () => {}) {
+  vi.resetModules();
+
+  const { Log }                  = await import("../lib/log");
+  const { LogNotificationModal } = await import("../lib/log.history");
+
+  const log   = Log.init("plugin", { loglevel: "none" });
+  notify(log);
+
+  const modal = new LogNotificationModal({} as any, log);
+  modal.open();
+
+  const entries = () => Array.from(modal.contentEl.querySelectorAll("details"));
+  const button  = (text: string, el: HTMLElement = modal.contentEl) =>
+    Array.from(el.querySelectorAll("button")).find((b) => b.textContent === text) as HTMLButtonElement;
+
+  return { log, modal, entries, button };
+}
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const writeText = vi.fn(async (_text: string) => {});
+
+  beforeEach(() => {
+    writeText.mockClear();
+    Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+  });
+
+  test("shows a hint without notifications", async () => {
+    const { modal, entries } = await setup();
+
+    expect(modal.titleEl.textContent).toBe("Recent notifications");
+    expect(entries()).toHaveLength(0);
+    expect(modal.contentEl.querySelector(".log-notifications-empty")?.textContent).toBe("No notifications yet.");
+  });
+
+  test("lists notifications newest first with their details", async () => {
+    const error = new Error("offline");
+    const { entries } = await setup((log) => {
+      log.notice("Saved", "success");
+      log.notice("Sync failed", error);
+    });
+
+    const [ first, second ] = entries();
+    expect(first.classList.contains("notice-error")).toBe(true);
+    expect(first.querySelector("summary")?.textContent).toMatch(/^\d\d:\d\d:\d\d Sync failed$/);
+    expect(first.querySelector("pre")?.textContent).toContain(error.stack);
+    expect(second.classList.contains("notice-success")).toBe(true);
+  });
+
+  test("copies a single notification or all of them", async () => {
+    const { entries, button } = await setup((log) => {
+      log.notice("first", "log");
+      log.notice("second", "warn");
+    });
+
+    button("Copy", entries()[0]).click();
+    await vi.waitFor(() => expect(writeText).toHaveBeenLastCalledWith(expect.stringMatching(/WARN second$/)));
+
+    button("Copy all").click();
+    await vi.waitFor(() => expect(writeText).toHaveBeenCalledTimes(2));
+    expect(writeText.mock.calls[1][0].split("\n\n")).toHaveLength(2);
+  });
+
+  test("a failure to copy is logged instead of rejecting", async () => {
+    writeText.mockRejectedValueOnce(new Error("blocked"));
+
+    const { log, modal, entries } = await setup((log) => log.notice("first", "log"));
+    const error = vi.spyOn(log, "error").mockImplementation(() => {});
+
+    await expect(modal.copy(log.getNotifications())).resolves.toBeUndefined();
+    expect(entries()).toHaveLength(1);
+    expect(error).toHaveBeenCalledWith(expect.objectContaining({ message: "blocked" }), "Failed to copy notifications");
+  });
+
+  test("clears the history", async () => {
+    const { log, entries, button } = await setup((log) => log.notice("Saved", "success"));
+
+    button("Clear").click();
+
+    expect(log.getNotifications()).toEqual([]);
+    expect(entries()).toHaveLength(0);
+  });
+
+  test("empties the content on close", async () => {
+    const { modal } = await setup((log) => log.notice("Saved", "success"));
+
+    modal.close();
+
+    expect(modal.contentEl.childElementCount).toBe(0);
+  });
+});
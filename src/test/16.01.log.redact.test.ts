@@ -0,0 +1,343 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+import { types } from "node:util";
+import { LogRedactor  } from "../lib/log.redact";
+import { createPlugin } from "./__mocks__/plugin";
+
+/**
+ * Creates a redactor with fixed settings and vault path.
+ */
+function createRedactor(settings?: any, vaultPath?: string) {
+  return new LogRedactor(() => settings, () => vaultPath);
+}
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  describe("LogRedactor", () => {
+    test("redacts bearer tokens and key=value pairs", () => {
+      const redactor = createRedactor();
+
+      expect(redactor.text("Authorization: Bearer eyJhbGciOi.x-y_z=")).toBe("Authorization: Bearer <redacted>");
+      expect(redactor.text("GET /api?api_key=abc123&page=2")).toBe("GET /api?api_key=<redacted>&page=2");
+      expect(redactor.text('{"accessToken": "s3cr3t", "user": 1}')).toBe('{"accessToken": "<redacted>", "user": 1}');
+      expect(redactor.text("password: hunter2")).toBe("password: <redacted>");
+      expect(redactor.text("durationMs=12 tokens=5")).toBe("durationMs=12 tokens=5");
+    });
+
+    test("redacts names ending in a secret word at word boundaries only", () => {
+      const redactor = createRedactor();
+
+      expect(redactor.text("hotkey: Mod+P, monkey=banana, primaryKey=id")).toBe("hotkey: Mod+P, monkey=banana, primaryKey=id");
+      expect(redactor.text("key=abc123, Key: def")).toBe("key=<redacted>, Key: <redacted>");
+      expect(redactor.text("tokenizer=simple token_count=3 passwordHint=blue")).toBe("tokenizer=simple token_count=3 passwordHint=blue");
+      expect(redactor.text("X-Api-Key: abc PRIVATE_KEY=def clientSecret=ghi SESSION_TOKEN=jkl apikey=mno"))
+        .toBe("X-Api-Key: <redacted> PRIVATE_KEY=<redacted> clientSecret=<redacted> SESSION_TOKEN=<redacted> apikey=<redacted>");
+      expect(redactor.text("url=https://example.com/?access_token=abc&page=2")).toBe("url=https://example.com/?access_token=<redacted>&page=2");
+    });
+
+    test("redacts e-mail addresses", () => {
+      expect(createRedactor().text("Signed in as jane.doe+obsidian@example.co.uk")).toBe("Signed in as <email>");
+    });
+
+    test("replaces the vault base path, also with forward slashes", () => {
+      const redactor = createRedactor(undefined, "C:\\Users\\jane\\Vault");
+
+      expect(redactor.text("Cannot read C:\\Users\\jane\\Vault\\notes\\a.md")).toBe("Cannot read <vault>\\notes\\a.md");
+      expect(redactor.text("Cannot read C:/Users/jane/Vault/notes/a.md")).toBe("Cannot read <vault>/notes/a.md");
+    });
+
+    test("applies caller-supplied patterns and functions, ignoring invalid rules", () => {
+      const redactor = createRedactor({ rules: [ "ghp_[A-Za-z0-9]+", /sk-\w+/i, (text: string) => text.replace("jane", "<user>"), "(", {}, () => { throw new Error("x"); } ] });
+
+      expect(redactor.text("jane uses ghp_abc and SK-def and ghp_ghi")).toBe("<user> uses <redacted> and <redacted> and <redacted>");
+    });
+
+    test("compiles caller-supplied rules again only if they are replaced", () => {
+      let compiled = 0;
+      class CountingRegExp extends RegExp {
+        get source() {
+          compiled++;
+          return super.source;
+        }
+      }
+
+      const settings = { rules: [ new CountingRegExp("foo") ] as any[] };
+      const redactor = createRedactor(settings);
+
+      expect(redactor.text("foo bar")).toBe("<redacted> bar");
+      expect(redactor.value([ "foo bar" ])).toEqual([ "<redacted> bar" ]);
+      expect(compiled).toBe(1);
+
+      settings.rules = [ new CountingRegExp("bar") ];
+      expect(redactor.text("foo bar")).toBe("foo <redacted>");
+      expect(compiled).toBe(2);
+    });
+
+    test("enabled: false disables all redaction", () => {
+      const redactor = createRedactor({ enabled: false });
+      const value    = { token: "abc" };
+
+      expect(redactor.text("Bearer abc")).toBe("Bearer abc");
+      expect(redactor.value(value)).toBe(value);
+    });
+
+    test("redacts nested arrays and plain objects into copies", () => {
+      const redactor = createRedactor();
+      const value    = { user: { email: "jane@example.com", apiKey: "abc", retries: 3 }, headers: [ "Bearer abc" ], secret: 42 };
+
+      expect(redactor.value(value)).toEqual({
+        user: { email: "<email>", apiKey: "<redacted>", retries: 3 },
+        headers: [ "Bearer <redacted>" ],
+        secret: "<redacted>",
+      });
+      expect(value.user.apiKey).toBe("abc");
+    });
+
+    test("keeps properties not named like secrets", () => {
+      const redactor = createRedactor();
+      const value    = { hotkey: "Mod+P", primaryKey: 1, monkey: "banana", tokens: 5 };
+
+      expect(redactor.value(value)).toBe(value);
+      expect(redactor.value({ key: "abc", Authorization: "x", "x-api-key": "y", refresh_token: 1 })).toEqual({
+        key: "<redacted>", Authorization: "<redacted>", "x-api-key": "<redacted>", refresh_token: "<redacted>",
+      });
+    });
+
+    test("keeps values without secrets and class instances unchanged", () => {
+      const redactor = createRedactor();
+      const plain    = { path: "notes/a.md", items: [ 1, 2 ] };
+      const map      = new Map([ [ "token", "abc" ] ]);
+
+      expect(redactor.value(plain)).toBe(plain);
+      expect(redactor.value(map)).toBe(map);
+    });
+
+    test("redacts every occurrence of a shared reference", () => {
+      const redactor = createRedactor();
+      const shared   = { token: "abc123" };
+
+      const redacted = redactor.value({ a: shared, b: shared });
+      expect(redacted).toEqual({ a: { token: "<redacted>" }, b: { token: "<redacted>" } });
+      expect(redacted.a).toBe(redacted.b);
+
+      const [ first, second ] = redactor.value([ shared, shared ]);
+      expect(second).toBe(first);
+      expect(second).toEqual({ token: "<redacted>" });
+    });
+
+    test("redacts cyclic structures into copies with the same cycles", () => {
+      const redactor = createRedactor();
+      const cyclic: any = { token: "abc123", nested: { items: [] } };
+      cyclic.self = cyclic;
+      cyclic.nested.items.push(cyclic);
+
+      const redacted = redactor.value(cyclic);
+      expect(redacted).not.toBe(cyclic);
+      expect(redacted.token).toBe("<redacted>");
+      expect(redacted.self).toBe(redacted);
+      expect(redacted.nested.items[0]).toBe(redacted);
+      expect(cyclic.token).toBe("abc123");
+    });
+
+    test("redacts errors into copies of the same class", () => {
+      const redactor = createRedactor();
+      const error    = new TypeError("Login failed for jane@example.com", { cause: "token=abc" });
+
+      const redacted = redactor.value(error);
+      expect(redacted).not.toBe(error);
+      expect(redacted).toBeInstanceOf(TypeError);
+      expect(types.isNativeError(redacted)).toBe(true);
+      expect(Object.prototype.toString.call(redacted)).toBe("[object Error]");
+      expect(redacted.message).toBe("Login failed for <email>");
+      expect(redacted.stack).not.toContain("jane@example.com");
+      expect(redacted.cause).toBe("token=<redacted>");
+      expect(error.message).toBe("Login failed for jane@example.com");
+
+      const plain = new Error("offline");
+      expect(redactor.value(plain)).toBe(plain);
+    });
+
+    test("rebuilds redacted DOMExceptions as plain errors", () => {
+      const redactor  = createRedactor();
+      const exception = new DOMException("Blocked for jane@example.com", "SecurityError");
+
+      const redacted = redactor.value(exception);
+      expect(redacted).toBeInstanceOf(Error);
+      expect(redacted.name).toBe("SecurityError");
+      expect(redacted.message).toBe("Blocked for <email>");
+
+      const plain = new DOMException("Aborted", "AbortError");
+      expect(redactor.value(plain)).toBe(plain);
+    });
+  });
+
+  describe("Log", () => {
+
+    const spies: { mockRestore(): void }[] = [];
+
+    beforeEach(() => {
+      for (const method of [ "debug", "log", "info", "warn", "error" ] as const) {
+        spies.push(vi.spyOn(console, method).mockImplementation(() => {}));
+      }
+    });
+
+    afterEach(() => {
+      spies.splice(0).forEach((spy) => spy.mockRestore());
+    });
+
+    test("redacts arguments and fields before console and transports", async () => {
+      vi.resetModules();
+
+      const { Log } = await import("../lib/log");
+      const log     = Log.init("plugin", { loglevel: "info", buffer: { level: "info" } });
+
+      log.info("Request", { headers: { authorization: "Bearer abc" } });
+      log.event("warn", "Signed in as jane@example.com", { token: "abc", durationMs: 12 });
+
+      expect(console.info).toHaveBeenCalledWith("plugin", "Request", { headers: { authorization: "<redacted>" } });
+      expect(console.warn).toHaveBeenCalledWith("plugin", "Signed in as <email>", "token=<redacted> durationMs=12");
+      expect(log.getRecent().map((record) => record.message ?? record.args[1])).toEqual([
+        { headers: { authorization: "<redacted>" } },
+        "Signed in as <email>",
+      ]);
+    });
+
+    test("redacts arguments sharing a reference alike", async () => {
+      vi.resetModules();
+
+      const { Log } = await import("../lib/log");
+      const log     = Log.init("plugin", { loglevel: "info" });
+      const shared  = { token: "abc123" };
+
+      log.info("x", { a: shared, b: shared });
+      log.info(shared, shared);
+
+      expect(console.info).toHaveBeenCalledWith("plugin", "x", { a: { token: "<redacted>" }, b: { token: "<redacted>" } });
+      expect(console.info).toHaveBeenCalledWith("plugin", { token: "<redacted>" }, { token: "<redacted>" });
+    });
+
+    test("redacts notices and the notification history", async () => {
+      vi.resetModules();
+
+      const { Log    } = await import("../lib/log");
+      const { Notice } = await import("obsidian");
+      (Notice as any).mockClear();
+
+      const log = Log.init("plugin", { loglevel: "info", redact: { rules: [ "hunter2" ] } });
+      log.notice("Login failed", new Error("bad password hunter2 for jane@example.com"));
+
+      expect((Notice as any).mock.calls.at(-1)[0]).toBe("Login failed\r\nError: bad password <redacted> for <email>");
+      expect((log.getNotifications()[0].error as Error).message).toBe("bad password <redacted> for <email>");
+      expect(console.error).toHaveBeenCalledWith("plugin", "Login failed", expect.objectContaining({ message: "bad password <redacted> for <email>" }));
+    });
+
+    test("redacted DOMExceptions stay serializable for transports and the history", async () => {
+      vi.resetModules();
+
+      const { Log }                = await import("../lib/log");
+      const { formatNotification,
+              normalizeError,
+              serializeRecord    } = await import("../lib/log.internal");
+
+      const log            = Log.init("plugin", { loglevel: "info" });
+      const records: any[] = [];
+      log.addTransport({ write: (record) => records.push(record) });
+
+      log.error(new DOMException("Blocked for jane@example.com", "SecurityError"), "Export failed");
+      const error = records[0].args.at(-1);
+
+      expect(normalizeError(error)).toEqual(expect.objectContaining({ name: "SecurityError", message: "Blocked for <email>" }));
+      expect(JSON.parse(serializeRecord(records[0])).args[1]).toEqual(expect.objectContaining({ name: "SecurityError", message: "Blocked for <email>" }));
+
+      log.notice("Export failed", new DOMException("Blocked for jane@example.com", "SecurityError"));
+      expect(formatNotification(log.getNotifications()[0])).toContain("SecurityError: Blocked for <email>");
+    });
+
+    test("replaces the vault path of an attached logger", async () => {
+      vi.resetModules();
+
+      const { Log } = await import("../lib/log");
+      const plugin  = {
+        manifest: { id: "my-plugin", version: "1.0.0" },
+        app:      { vault: { adapter: { getBasePath: () => "/home/jane/Vault" } } },
+        loadData: async () => ({ log: { loglevel: "info" } }),
+        register: vi.fn(),
+      };
+
+      const log = await Log.attach(plugin as any);
+      log.warn("Cannot read /home/jane/Vault/daily/2026-01-31.md");
+
+      expect(console.warn).toHaveBeenCalledWith("my-plugin", "Cannot read <vault>/daily/2026-01-31.md");
+    });
+
+    test("redacts failures reported to the console", async () => {
+      vi.resetModules();
+
+      const { Log } = await import("../lib/log");
+      const log     = Log.init("plugin", { loglevel: "info" });
+
+      log.addTransport({
+        write:   () => { throw new Error("write failed for jane@example.com"); },
+        dispose: () => { throw new Error("dispose failed, token=abc"); },
+      });
+      log.onLevelChange(() => { throw new Error("listener failed for jane@example.com"); });
+
+      log.info("x");
+      log.setLevel("warn");
+      log.dispose();
+
+      for (const [ prefix, message ] of [ [ "plugin", "Log transport failed:" ], [ "plugin", "Log level listener failed:" ], [ "plugin", "Log transport failed to dispose:" ] ]) {
+        const call = (console.error as any).mock.calls.find((args: unknown[]) => args[0] === prefix && args[1] === message);
+        expect(call[2]).toBeInstanceOf(Error);
+        expect(call[2].message).not.toMatch(/jane@example.com|abc/);
+      }
+    });
+
+    test("transports report write failures through the redact option", async () => {
+      vi.resetModules();
+
+      const { Log              } = await import("../lib/log");
+      const { LogFileTransport } = await import("../lib/log.file");
+      const { LogNoteTransport } = await import("../lib/log.note");
+      const adapter = {
+        getBasePath: () => "/home/jane/Vault",
+        exists:      vi.fn(async () => { throw new Error("ENOENT: /home/jane/Vault/.obsidian/plugins/my-plugin/logs"); }),
+      };
+      const vault  = {
+        adapter,
+        configDir:             ".obsidian",
+        getAbstractFileByPath: vi.fn(() => null),
+        createFolder:          vi.fn(async () => {}),
+        create:                vi.fn(async () => { throw new Error("EACCES: /home/jane/Vault/Logs"); }),
+      };
+      const plugin = createPlugin({ data: { log: { loglevel: "info" } }, app: { vault } });
+      const log    = await Log.attach(plugin as any);
+      const file   = new LogFileTransport(plugin as any, { redact: (value) => log.redact(value) });
+      const note   = new LogNoteTransport(plugin as any, { path: "Logs/My Plugin.md", redact: (value) => log.redact(value) });
+      log.addTransport(file);
+      log.addTransport(note);
+
+      log.info("x");
+      await file.flush();
+      await note.flush();
+
+      const errors = (console.error as any).mock.calls.filter((args: unknown[]) => /^Log (archive|note) failed:$/.test(args[1] as string));
+      expect(errors.map((args: any[]) => args[2].message)).toEqual([
+        "ENOENT: <vault>/.obsidian/plugins/my-plugin/logs",
+        "EACCES: <vault>/Logs",
+      ]);
+    });
+
+    test("redaction can be disabled at runtime", async () => {
+      vi.resetModules();
+
+      const { Log } = await import("../lib/log");
+      const log     = Log.init("plugin", { loglevel: "info" });
+
+      log.getSettings().redact = { enabled: false };
+      log.info("token=abc");
+
+      expect(console.info).toHaveBeenCalledWith("plugin", "token=abc");
+    });
+  });
+});
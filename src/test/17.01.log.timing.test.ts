@@ -0,0 +1,151 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const spies: { mockRestore(): void }[] = [];
+  let   now = 0;
+
+  beforeEach(() => {
+    now = 1000;
+    for (const method of [ "debug", "log", "info", "warn", "error" ] as const) {
+      spies.push(vi.spyOn(console, method).mockImplementation(() => {}));
+    }
+    spies.push(vi.spyOn(performance, "now").mockImplementation(() => now));
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  /**
+   * Imports a fresh logger module and initializes a logger.
+   */
+  async function setup(settings: Record<string, unknown> = {}) {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+    return Log.init("plugin", { loglevel: "info", ...settings });
+  }
+
+  describe("time() and timeEnd()", () => {
+    test("log the duration as debug message with a durationMs field", async () => {
+      const log = await setup();
+
+      log.time("Index vault");
+      now += 182.437;
+
+      expect(log.timeEnd("Index vault")).toBe(182.44);
+      expect(console.debug).toHaveBeenCalledWith("plugin", "Index vault", "durationMs=182.44");
+    });
+
+    test("records the duration as structured data", async () => {
+      const log   = await setup({ buffer: { level: "debug" } });
+      const write = vi.fn();
+      log.addTransport({ write });
+
+      log.time("Render");
+      now += 5;
+      log.timeEnd("Render", { level: "info" });
+
+      expect(write).toHaveBeenCalledWith(expect.objectContaining({ level: "info", message: "Render", fields: { durationMs: 5 } }));
+    });
+
+    test("warn about unknown and already running timers", async () => {
+      const log = await setup();
+
+      expect(log.timeEnd("Render")).toBeUndefined();
+      expect(console.warn).toHaveBeenCalledWith("plugin", 'Timer "Render" does not exist');
+
+      log.time("Render");
+      now += 10;
+      log.time("Render");
+      now += 10;
+
+      expect(console.warn).toHaveBeenCalledWith("plugin", 'Timer "Render" already started');
+      expect(log.timeEnd("Render")).toBe(20);
+      expect(log.timeEnd("Render")).toBeUndefined();
+    });
+
+    test("timers of different namespaces do not collide", async () => {
+      const log = await setup();
+
+      log.time("Load");
+      now += 10;
+      log.child("sync").time("Load");
+      now += 10;
+
+      expect(log.child("sync").timeEnd("Load")).toBe(10);
+      expect(log.timeEnd("Load")).toBe(20);
+    });
+
+    test("pass the level gating", async () => {
+      const log = await setup({ loglevel: "warn" });
+
+      log.time("Render");
+      now += 5;
+      log.timeEnd("Render");
+
+      expect(console.debug).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("measure()", () => {
+    test("returns the result of synchronous functions", async () => {
+      const log = await setup();
+
+      const result = log.measure("Render", () => {
+        now += 12;
+        return "<p>";
+      }, { level: "log" });
+
+      expect(result).toBe("<p>");
+      expect(console.log).toHaveBeenCalledWith("plugin", "Render", "durationMs=12");
+    });
+
+    test("measures asynchronous functions until their promise settles", async () => {
+      const log = await setup();
+
+      const result = log.measure("Load notes", async () => {
+        await Promise.resolve();
+        now += 40;
+        return [ "a.md" ];
+      });
+
+      expect(console.debug).not.toHaveBeenCalled();
+      await expect(result).resolves.toEqual([ "a.md" ]);
+      expect(console.debug).toHaveBeenCalledWith("plugin", "Load notes", "durationMs=40");
+    });
+
+    test("logs failures as error with the elapsed time and rethrows", async () => {
+      const log   = await setup();
+      const error = new Error("offline");
+
+      expect(() => log.measure("Sync", () => {
+        now += 3;
+        throw error;
+      })).toThrow(error);
+      expect(console.error).toHaveBeenCalledWith("plugin", "Sync failed:", error, "durationMs=3");
+
+      await expect(log.measure("Sync", async () => {
+        now += 7;
+        throw "timeout";
+      })).rejects.toBe("timeout");
+      expect(console.error).toHaveBeenCalledWith("plugin", "Sync failed:", "timeout", "durationMs=7");
+    });
+
+    test("warns when the threshold is exceeded", async () => {
+      const log = await setup({ timing: { slowMs: 100 } });
+
+      log.measure("Render", () => { now += 100; });
+      expect(console.warn).not.toHaveBeenCalled();
+      expect(console.debug).toHaveBeenCalledWith("plugin", "Render", "durationMs=100");
+
+      log.measure("Render", () => { now += 250; });
+      expect(console.warn).toHaveBeenCalledWith("plugin", "Render exceeded 100 ms", "durationMs=250 slowMs=100");
+
+      log.measure("Render", () => { now += 250; }, { slowMs: 500 });
+      expect(console.debug).toHaveBeenCalledWith("plugin", "Render", "durationMs=250");
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
+
+  const spies: { mockRestore(): void }[] = [];
+  const calls: unknown[][] = [];
+
+  beforeEach(() => {
+    calls.splice(0);
+    for (const method of [ "debug", "log", "info", "warn", "error", "group", "groupCollapsed", "groupEnd" ] as const) {
+      spies.push(vi.spyOn(console, method).mockImplementation((...args: unknown[]) => { calls.push([ method, ...args ]); }));
+    }
+  });
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  /**
+   * Imports a fresh logger module and initializes a logger.
+   */
+  async function setup(loglevel: "warn" | "info" = "info") {
+    vi.resetModules();
+
+    const { Log } = await import("../lib/log");
+    return Log.init("plugin", { loglevel });
+  }
+
+  test("wraps the messages of the callback into a console group", async () => {
+    const log = await setup();
+
+    const result = log.group("Indexing", () => {
+      log.info("Scanning folders");
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(calls).toEqual([
+      [ "group", "plugin", "Indexing" ],
+      [ "info", "plugin", "Scanning folders" ],
+      [ "groupEnd" ],
+    ]);
+  });
+
+  test("opens no group if all messages are filtered out", async () => {
+    const log = await setup("warn");
+
+    log.group("Indexing", () => {
+      log.debug("Scanning folders");
+      log.info("Done");
+    });
+
+    expect(calls).toEqual([]);
+  });
+
+  test("opens the group right before the first enabled message", async () => {
+    const log = await setup("warn");
+
+    log.groupCollapsed("Indexing", () => {
+      log.info("Scanning folders");
+      log.warn("Skipped broken note");
+      log.error(new Error("offline"));
+    });
+
+    expect(calls.map(([ method ]) => method)).toEqual([ "groupCollapsed", "warn", "error", "groupEnd" ]);
+  });
+
+  test("nested groups open their enclosing groups, also across child loggers", async () => {
+    const log = await setup("warn");
+
+    log.group("Sync", () => {
+      log.info("Starting");
+      log.child("remote").groupCollapsed("Upload", () => log.child("remote").warn("Slow response"));
+      log.group("Download", () => log.info("Nothing to do"));
+    });
+
+    expect(calls).toEqual([
+      [ "group", "plugin", "Sync" ],
+      [ "groupCollapsed", "plugin:remote", "Upload" ],
+      [ "warn", "plugin:remote", "Slow response" ],
+      [ "groupEnd" ],
+      [ "groupEnd" ],
+    ]);
+  });
+
+  test("keeps the group of asynchronous callbacks until the promise settles", async () => {
+    const log = await setup();
+
+    const result = log.group("Sync", async () => {
+      await Promise.resolve();
+      log.info("Uploaded");
+      return "done";
+    });
+
+    expect(calls).toEqual([]);
+    await expect(result).resolves.toBe("done");
+    expect(calls).toEqual([
+      [ "group", "plugin", "Sync" ],
+      [ "info", "plugin", "Uploaded" ],
+      [ "groupEnd" ],
+    ]);
+  });
+
+  test("closes the group when the callback throws or rejects", async () => {
+    const log   = await setup();
+    const error = new Error("offline");
+
+    expect(() => log.group("Sync", () => {
+      log.info("Starting");
+      throw error;
+    })).toThrow(error);
+
+    await expect(log.group("Sync", async () => {
+      log.info("Starting");
+      throw error;
+    })).rejects.toBe(error);
+
+    log.info("Outside");
+    expect(calls.map(([ method ]) => method)).toEqual([ "group", "info", "groupEnd", "group", "info", "groupEnd", "info" ]);
+  });
+
+  test("redacts the group label", async () => {
+    const log = await setup();
+
+    log.group("Sync for jane@example.com", () => log.info("Starting"));
+
+    expect(calls[0]).toEqual([ "group", "plugin", "Sync for <email>" ]);
+  });
+});
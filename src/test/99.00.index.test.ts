@@ -2,7 +2,7 @@
 // cannot be tested at runtime.
 import { fileURLToPath } from "node:url";
 import path from "node:path";
-import { Log } from "../lib";
+import { Log, LogFileTransport, LogLevels, LogNoteTransport, LogNotificationModal, LogView, addLogCommands, addLogSettings, registerLogView } from "../lib";
 
 describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").split("/test/")[1] || fileURLToPath(import.meta.url))}`, () => {
 
@@ -14,4 +14,33 @@ describe(`Running ${(fileURLToPath(import.meta.url).split(path.sep).join("/").sp
   test("Class Log exposes static init method", () => {
     expect(typeof Log.init).toBe("function");
   });
+
+  test("export 'LogLevels' lists all log levels", () => {
+    expect(Object.values(LogLevels)).toEqual([ "none", "error", "warn", "debug", "log", "info" ]);
+  });
+
+  test("export 'addLogSettings' is a function", () => {
+    expect(typeof addLogSettings).toBe("function");
+  });
+
+  test("export 'LogFileTransport' is a class (function)", () => {
+    expect(typeof LogFileTransport).toBe("function");
+  });
+
+  test("export 'LogNoteTransport' is a class (function)", () => {
+    expect(typeof LogNoteTransport).toBe("function");
+  });
+
+  test("exports 'LogView' and 'registerLogView'", () => {
+    expect(typeof LogView).toBe("function");
+    expect(typeof registerLogView).toBe("function");
+  });
+
+  test("export 'addLogCommands' is a function", () => {
+    expect(typeof addLogCommands).toBe("function");
+  });
+
+  test("export 'LogNotificationModal' is a class (function)", () => {
+    expect(typeof LogNotificationModal).toBe("function");
+  });
 });
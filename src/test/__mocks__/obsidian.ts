@@ -3,3 +3,114 @@ export class Plugin {
     return null;
   }
 }
+
+/**
+ * Stand-in for Obsidian's `Notice`, backed by jsdom elements attached to the
+ * document. A `vi.fn()`, so that tests can inspect `mock.calls` and
+ * `mock.instances`; `hide()` detaches the notice.
+ */
+export const Notice = vi.fn(function (this: any, message: string) {
+  this.containerEl = document.body.appendChild(document.createElement("div"));
+  this.messageEl   = this.containerEl.appendChild(document.createElement("div"));
+  this.messageEl.addClass = vi.fn((cls: string) => this.messageEl.classList.add(cls));
+  this.message     = message;
+  this.setMessage  = vi.fn((next: string) => { this.message = next; this.messageEl.textContent = next; return this; });
+  this.hide        = vi.fn(() => this.containerEl.remove());
+});
+
+/**
+ * Stand-in for Obsidian's `Setting`. The dropdowns added via `addDropdown()`
+ * are collected in `dropdowns`, most recent last; their `handler` is the
+ * callback passed to `onChange()`.
+ */
+export const Setting = vi.fn(function (this: any, containerEl: HTMLElement) {
+  this.containerEl = containerEl;
+  this.dropdowns   = [];
+  this.setName     = vi.fn(() => this);
+  this.setDesc     = vi.fn(() => this);
+  this.addDropdown = vi.fn((cb: (dropdown: any) => unknown) => {
+    const dropdown: any = {
+      options:  {},
+      value:    undefined,
+      addOptions: vi.fn((options: Record<string, string>) => { Object.assign(dropdown.options, options); return dropdown; }),
+      setValue:   vi.fn((value: string) => { dropdown.value = value; return dropdown; }),
+      onChange:   vi.fn((handler: (value: string) => unknown) => { dropdown.handler = handler; return dropdown; }),
+    };
+    this.dropdowns.push(dropdown);
+    cb(dropdown);
+    return this;
+  });
+});
+
+/**
+ * Minimal stand-in for Obsidian's `ItemView`, backed by jsdom elements.
+ */
+export class ItemView {
+  public containerEl: HTMLElement = document.createElement("div");
+  public contentEl: HTMLElement   = this.containerEl.appendChild(document.createElement("div"));
+
+  constructor(public leaf: unknown) { }
+}
+
+export const apiVersion = "1.8.0";
+
+export const Platform = { isDesktop: true, isMobile: false, isDesktopApp: true, isMobileApp: false, isMacOS: false, isWin: false, isLinux: true };
+
+/**
+ * Minimal stand-in for Obsidian's `Modal`, backed by jsdom elements.
+ * `open()` and `close()` invoke `onOpen()` and `onClose()`.
+ */
+export class Modal {
+  public titleEl: HTMLElement   = document.createElement("div");
+  public contentEl: HTMLElement = document.createElement("div");
+  public opened = false;
+
+  constructor(public app: unknown) { }
+  setTitle(title: string) { this.titleEl.textContent = title; return this; }
+  open() { this.opened = true; this.onOpen(); }
+  close() { this.opened = false; this.onClose(); }
+  onOpen() { }
+  onClose() { }
+}
+
+/**
+ * Minimal stand-in for Obsidian's `SuggestModal`. Instances are collected in
+ * `SuggestModal.instances`, most recent last.
+ */
+export class SuggestModal<T> {
+  public static instances: SuggestModal<unknown>[] = [];
+  public placeholder = "";
+  public opened = false;
+
+  constructor(public app: unknown) {
+    SuggestModal.instances.push(this);
+  }
+  setPlaceholder(placeholder: string) { this.placeholder = placeholder; }
+  open() { this.opened = true; }
+  close() { this.opened = false; }
+}
+
+/**
+ * Minimal stand-ins for the DOM helpers Obsidian adds to `HTMLElement`.
+ */
+type DomInfo = { cls?: string | string[]; text?: string; type?: string; value?: string; placeholder?: string };
+
+function createEl(this: HTMLElement, tag: string, info: DomInfo = {}) {
+  const el = document.createElement(tag) as any;
+  if (info.cls)         el.className = ([] as string[]).concat(info.cls).join(" ");
+  if (info.text)        el.textContent = info.text;
+  if (info.type)        el.type = info.type;
+  if (info.value)       el.value = info.value;
+  if (info.placeholder) el.placeholder = info.placeholder;
+  return this.appendChild(el);
+}
+
+Object.assign(HTMLElement.prototype, {
+  createEl,
+  createDiv(this: HTMLElement, info?: DomInfo) { return createEl.call(this, "div", info); },
+  createSpan(this: HTMLElement, info?: DomInfo) { return createEl.call(this, "span", info); },
+  empty(this: HTMLElement) { this.replaceChildren(); },
+  setText(this: HTMLElement, text: string) { this.textContent = text; },
+  addClass(this: HTMLElement, ...cls: string[]) { this.classList.add(...cls); },
+  toggleClass(this: HTMLElement, cls: string, value: boolean) { this.classList.toggle(cls, value); },
+});
@@ -0,0 +1,37 @@
+/**
+ * Options for {@link createPlugin}.
+ */
+export interface PluginStandInOptions<A extends object> {
+  /** The manifest id, `"my-plugin"` by default. */
+  id?:   string;
+  /** The initial content of the plugin's data.json, `null` by default. */
+  data?: unknown;
+  /** The `app` the plugin belongs to; only what a test uses has to exist. */
+  app?:  A;
+}
+
+/**
+ * Creates a minimal stand-in for an Obsidian `Plugin`, shared by all tests.
+ *
+ * `loadData()`/`saveData()` read and write `data`, `addCommand()` collects
+ * into `commands`, and the callbacks passed to `register()` are collected in
+ * `teardown` and run by `unload()`. Everything the plugin reaches through
+ * `app` (vault, workspace, ...) is passed in by the test.
+ */
+export function createPlugin<A extends object = Record<string, never>>(options: PluginStandInOptions<A> = {}) {
+  const id = options.id ?? "my-plugin";
+  const plugin = {
+    manifest:     { id, version: "1.2.3", dir: `.obsidian/plugins/${id}` },
+    app:          (options.app ?? {}) as A,
+    data:         options.data ?? null as unknown,
+    commands:     [] as any[],
+    teardown:     [] as (() => unknown)[],
+    loadData:     vi.fn(async () => plugin.data),
+    saveData:     vi.fn(async (next: unknown) => { plugin.data = next; }),
+    addCommand:   vi.fn((command: any) => { plugin.commands.push(command); return command; }),
+    registerView: vi.fn(),
+    register:     vi.fn((cb: () => unknown) => { plugin.teardown.push(cb); }),
+    unload:       () => plugin.teardown.forEach((cb) => cb()),
+  };
+  return plugin;
+}